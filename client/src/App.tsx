@@ -8,9 +8,14 @@ import NotFound from "@/pages/not-found";
 import Landing from "@/pages/Landing";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
+import ForgotPassword from "@/pages/ForgotPassword";
+import ResetPassword from "@/pages/ResetPassword";
+import VerifyEmail from "@/pages/VerifyEmail";
 import Dashboard from "@/pages/Dashboard";
 import Search from "@/pages/Search";
 import Admin from "@/pages/Admin";
+import Settings from "@/pages/Settings";
+import Profile from "@/pages/Profile";
 
 function Router() {
   return (
@@ -18,9 +23,14 @@ function Router() {
       <Route path="/" component={Landing} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/search" component={Search} />
       <Route path="/admin" component={Admin} />
+      <Route path="/settings" component={Settings} />
+      <Route path="/users/:username" component={Profile} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,51 @@
+import { useMutation } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MailWarning, Loader2 } from "lucide-react";
+
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/resend-verification", {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Email sent", description: `We sent a new verification link to ${user?.email}.` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not send verification email.", variant: "destructive" });
+    },
+  });
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  return (
+    <Alert className="mb-6" data-testid="banner-verify-email">
+      <MailWarning className="h-4 w-4" />
+      <AlertTitle>Verify your email</AlertTitle>
+      <AlertDescription className="flex items-center justify-between gap-4 flex-wrap">
+        <span>
+          Confirm {user.email} to request sessions and leave reviews. Check your inbox for the link.
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+          data-testid="button-resend-verification"
+        >
+          {resendMutation.isPending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          Resend email
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
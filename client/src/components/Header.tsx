@@ -10,8 +10,9 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import type { User as UserType } from "@shared/schema";
+import { UserAvatar } from "./UserAvatar";
+import type { SafeUser as UserType } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 
 interface HeaderProps {
   user?: UserType | null;
@@ -62,7 +63,7 @@ export function Header({ user, onLogout }: HeaderProps) {
                     Find Skills
                   </Button>
                 </Link>
-                {user.isAdmin && (
+                {hasPermission(user.role, "admin.access") && (
                   <Link href="/admin">
                     <Button
                       variant={isActive("/admin") ? "secondary" : "ghost"}
@@ -83,11 +84,7 @@ export function Header({ user, onLogout }: HeaderProps) {
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" className="relative h-9 w-9 rounded-full" data-testid="button-user-menu">
-                    <Avatar className="h-9 w-9">
-                      <AvatarFallback className="bg-primary text-primary-foreground">
-                        {user.fullName.charAt(0).toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
+                    <UserAvatar user={user} className="h-9 w-9" fallbackClassName="bg-primary text-primary-foreground" />
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-56">
@@ -103,9 +100,9 @@ export function Header({ user, onLogout }: HeaderProps) {
                     </Link>
                   </DropdownMenuItem>
                   <DropdownMenuItem asChild>
-                    <Link href="/profile" className="flex items-center gap-2 cursor-pointer">
+                    <Link href="/settings" className="flex items-center gap-2 cursor-pointer" data-testid="link-settings">
                       <Settings className="w-4 h-4" />
-                      Profile Settings
+                      Settings
                     </Link>
                   </DropdownMenuItem>
                   <DropdownMenuSeparator />
@@ -152,7 +149,7 @@ export function Header({ user, onLogout }: HeaderProps) {
                   <Link href="/search" onClick={() => setMobileMenuOpen(false)}>
                     <Button variant="ghost" className="w-full justify-start">Find Skills</Button>
                   </Link>
-                  {user.isAdmin && (
+                  {hasPermission(user.role, "admin.access") && (
                     <Link href="/admin" onClick={() => setMobileMenuOpen(false)}>
                       <Button variant="ghost" className="w-full justify-start">Admin</Button>
                     </Link>
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { EVIDENCE_KINDS, EVIDENCE_KIND_LABELS, MAX_EVIDENCE_PER_SKILL, type EvidenceKind } from "@shared/proficiency";
+import type { SkillEvidence } from "@shared/schema";
+import { Award, BookOpen, ExternalLink, FolderOpen, Loader2, Plus, Trash2, type LucideIcon } from "lucide-react";
+
+const EVIDENCE_ICONS: Record<EvidenceKind, LucideIcon> = {
+  certificate: Award,
+  portfolio: FolderOpen,
+  course: BookOpen,
+};
+
+function evidenceIcon(kind: string): LucideIcon {
+  return EVIDENCE_ICONS[kind as EvidenceKind] ?? ExternalLink;
+}
+
+// Read-only list of a skill's evidence, as shown on profiles
+export function EvidenceLinks({ evidence }: { evidence: SkillEvidence[] }) {
+  if (evidence.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {evidence.map((item) => {
+        const Icon = evidenceIcon(item.kind);
+        return (
+          <li key={item.id} className="text-sm">
+            <a
+              href={item.url}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="inline-flex items-center gap-1.5 text-primary hover:underline"
+              data-testid={`link-evidence-${item.id}`}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {item.title}
+            </a>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// Evidence management for one of your own skills, inside the edit dialog
+export function EvidenceEditor({ skillId }: { skillId: string }) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<EvidenceKind>("certificate");
+  const [title, setTitle] = useState("");
+  const [url, setUrl] = useState("");
+  const queryKey = ["/api/skills", skillId, "evidence"];
+
+  const { data: evidence = [], isLoading } = useQuery<SkillEvidence[]>({ queryKey });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/skills/${skillId}/evidence`, { kind, title, url });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setTitle("");
+      setUrl("");
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not add the evidence."), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/skills/${skillId}/evidence/${id}`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not remove the evidence.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {evidence.length > 0 && (
+        <ul className="space-y-1">
+          {evidence.map((item) => {
+            const Icon = evidenceIcon(item.kind);
+            return (
+              <li key={item.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`row-evidence-${item.id}`}>
+                <a
+                  href={item.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1.5 truncate hover:underline"
+                >
+                  <Icon className="w-3.5 h-3.5 shrink-0" />
+                  <span className="truncate">{item.title}</span>
+                </a>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive"
+                  onClick={() => removeMutation.mutate(item.id)}
+                  disabled={removeMutation.isPending}
+                  data-testid={`button-remove-evidence-${item.id}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {evidence.length < MAX_EVIDENCE_PER_SKILL && (
+        <div className="grid gap-2 sm:grid-cols-[9rem_1fr]">
+          <Select value={kind} onValueChange={(value) => setKind(value as EvidenceKind)}>
+            <SelectTrigger data-testid="select-evidence-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EVIDENCE_KINDS.map((value) => (
+                <SelectItem key={value} value={value}>{EVIDENCE_KIND_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Title, e.g. AP Calculus BC (score 5)"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={100}
+            data-testid="input-evidence-title"
+          />
+          <Input
+            className="sm:col-span-2"
+            type="url"
+            placeholder="https://"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            maxLength={500}
+            data-testid="input-evidence-url"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1 sm:col-span-2 justify-self-start"
+            onClick={() => addMutation.mutate()}
+            disabled={!title.trim() || !url.trim() || addMutation.isPending}
+            data-testid="button-add-evidence"
+          >
+            {addMutation.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Plus className="w-3.5 h-3.5" />}
+            Add evidence
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
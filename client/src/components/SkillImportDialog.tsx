@@ -0,0 +1,191 @@
+import { useState, type ChangeEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useCategories } from "@/lib/categories";
+import { describeProficiency } from "@shared/proficiency";
+import type { SkillImportReport, SkillImportRow } from "@shared/schema";
+import { FileUp, Loader2 } from "lucide-react";
+
+type ImportFormat = "csv" | "json";
+
+interface ImportFile {
+  name: string;
+  format: ImportFormat;
+  content: string;
+}
+
+const STATUS_BADGES: Record<SkillImportRow["status"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  ready: { label: "Ready", variant: "default" },
+  created: { label: "Added", variant: "default" },
+  duplicate: { label: "Skipped", variant: "secondary" },
+  invalid: { label: "Error", variant: "destructive" },
+};
+
+interface SkillImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pick a CSV or JSON file, preview how each row will be imported (a dry run
+// on the server), then import the rows that are ready
+export function SkillImportDialog({ open, onOpenChange }: SkillImportDialogProps) {
+  const { toast } = useToast();
+  const { categoryName } = useCategories();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [preview, setPreview] = useState<SkillImportReport | null>(null);
+
+  const close = () => {
+    setFile(null);
+    setPreview(null);
+    onOpenChange(false);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async ({ file, dryRun }: { file: ImportFile; dryRun: boolean }) => {
+      const response = await apiRequest("POST", "/api/skills/import", { format: file.format, content: file.content, dryRun });
+      return response.json() as Promise<SkillImportReport>;
+    },
+    onSuccess: (report) => {
+      if (report.dryRun) {
+        setPreview(report);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/skills/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      toast({ title: "Skills imported", description: `Added ${report.created} ${report.created === 1 ? "skill" : "skills"}.` });
+      close();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not import the file."), variant: "destructive" });
+    },
+  });
+
+  const onFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+
+    const format: ImportFormat = selected.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+    const chosen = { name: selected.name, format, content: await selected.text() };
+    setFile(chosen);
+    setPreview(null);
+    importMutation.mutate({ file: chosen, dryRun: true });
+  };
+
+  const ready = preview?.rows.filter((r) => r.status === "ready").length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Skills</DialogTitle>
+          <DialogDescription>
+            Add several skills at once from a CSV or JSON file. CSV files need a header row with the columns
+            name, category, type and optionally description, experienceLevel, yearsExperience and tags
+            (separated by semicolons).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3 flex-wrap">
+            <Button variant="outline" className="gap-2" asChild>
+              <label className="cursor-pointer">
+                <FileUp className="w-4 h-4" />
+                {file ? "Choose another file" : "Choose file"}
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  className="sr-only"
+                  onChange={onFileChange}
+                  data-testid="input-import-file"
+                />
+              </label>
+            </Button>
+            {file && <span className="text-sm text-muted-foreground truncate">{file.name}</span>}
+            {importMutation.isPending && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+          </div>
+
+          {preview && (
+            <>
+              <p className="text-sm text-muted-foreground" data-testid="text-import-summary">
+                {ready} of {preview.rows.length} {preview.rows.length === 1 ? "row is" : "rows are"} ready to import.
+                {ready < preview.rows.length && " The others will be skipped."}
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Skill</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => {
+                    const badge = STATUS_BADGES[row.status];
+                    const proficiency = row.skill && describeProficiency(row.skill);
+                    return (
+                      <TableRow key={row.row} data-testid={`row-import-${row.row}`}>
+                        <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.skill?.name ?? row.name ?? "—"}</div>
+                          {row.skill && (
+                            <div className="text-xs text-muted-foreground">
+                              {[
+                                row.skill.type === "offering" ? "Offering" : "Seeking",
+                                proficiency,
+                                row.skill.tags.join(", "),
+                              ].filter(Boolean).join(" · ")}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{row.skill ? categoryName(row.skill.category) : "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                          {row.errors.map((error) => (
+                            <p
+                              key={error}
+                              className={`text-xs mt-1 ${row.status === "invalid" ? "text-destructive" : "text-muted-foreground"}`}
+                            >
+                              {error}
+                            </p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => file && importMutation.mutate({ file, dryRun: false })}
+            disabled={!file || ready === 0 || importMutation.isPending}
+            data-testid="button-confirm-import"
+          >
+            {importMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {ready > 0 ? `Import ${ready} ${ready === 1 ? "Skill" : "Skills"}` : "Import Skills"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { describeProficiency, describeEndorsements } from "@shared/proficiency";
+import type { Skill } from "@shared/schema";
+import { BadgeCheck, ThumbsUp } from "lucide-react";
+
+type ProficiencySkill = Pick<
+  Skill,
+  "id" | "experienceLevel" | "yearsExperience" | "verifiedAt" | "verifiedBy" | "endorsementCount"
+>;
+
+// Level and years of experience, plus a verified marker and learner
+// endorsements once the skill has them
+export function SkillProficiency({ skill }: { skill: ProficiencySkill }) {
+  const proficiency = describeProficiency(skill);
+  const endorsements = describeEndorsements(skill.endorsementCount);
+
+  return (
+    <>
+      {proficiency && (
+        <Badge variant="secondary" className="text-xs" data-testid={`badge-proficiency-${skill.id}`}>
+          {proficiency}
+        </Badge>
+      )}
+      {skill.verifiedAt && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge
+              variant="outline"
+              className="text-xs gap-1 border-green-500/40 text-green-600 dark:text-green-400"
+              data-testid={`badge-verified-${skill.id}`}
+            >
+              <BadgeCheck className="w-3 h-3" />
+              Verified
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent>
+            {skill.verifiedBy ? "Checked by a moderator" : "Endorsed by learners who had sessions on it"}
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {endorsements && (
+        <span className="inline-flex items-center gap-1 text-xs text-muted-foreground" data-testid={`text-endorsements-${skill.id}`}>
+          <ThumbsUp className="w-3 h-3" />
+          {endorsements}
+        </span>
+      )}
+    </>
+  );
+}
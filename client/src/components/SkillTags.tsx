@@ -0,0 +1,24 @@
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import type { TagInfo } from "@shared/schema";
+import { Hash } from "lucide-react";
+
+// A skill's tags, each linking to search filtered by that tag
+export function SkillTags({ tags, className = "" }: { tags: TagInfo[]; className?: string }) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {tags.map((tag) => (
+        <Link key={tag.slug} href={`/search?tag=${encodeURIComponent(tag.slug)}`}>
+          <Badge variant="secondary" className="gap-0.5 text-xs font-normal cursor-pointer" data-testid={`tag-${tag.slug}`}>
+            <Hash className="w-3 h-3" />
+            {tag.name}
+          </Badge>
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { canonicalTag, MAX_TAGS_PER_SKILL } from "@shared/tags";
+import type { TagSummary } from "@shared/schema";
+import { X } from "lucide-react";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Free-form tags with suggestions from tags other skills already use. What's
+// typed is canonicalized the same way the server does it, so "JS" is added
+// as "JavaScript" and can't be added twice.
+export function TagInput({ value, onChange }: TagInputProps) {
+  const [text, setText] = useState("");
+  const [focused, setFocused] = useState(false);
+  const query = text.trim();
+  const full = value.length >= MAX_TAGS_PER_SKILL;
+
+  const { data: suggestions = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags", query],
+    queryFn: async () => {
+      const response = await fetch(`/api/tags?q=${encodeURIComponent(query)}`);
+      if (!response.ok) throw new Error("Failed to load tags");
+      return response.json();
+    },
+    enabled: query.length > 0,
+  });
+
+  const chosen = new Set(value.map((name) => canonicalTag(name)?.slug));
+  const options = suggestions.filter((tag) => !chosen.has(tag.slug));
+
+  const add = (typed: string) => {
+    const tag = canonicalTag(typed);
+    if (!tag || chosen.has(tag.slug) || full) {
+      setText("");
+      return;
+    }
+    // Prefer the spelling the tag already has
+    const existing = suggestions.find((s) => s.slug === tag.slug);
+    onChange([...value, existing?.name ?? tag.name]);
+    setText("");
+  };
+
+  const remove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      add(text);
+    } else if (e.key === "Backspace" && !text && value.length > 0) {
+      remove(value.length - 1);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((name, index) => (
+            <Badge key={name} variant="secondary" className="gap-1 font-normal" data-testid={`chip-tag-${index}`}>
+              {name}
+              <button type="button" onClick={() => remove(index)} aria-label={`Remove ${name}`}>
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={onKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          placeholder={full ? `Up to ${MAX_TAGS_PER_SKILL} tags` : "e.g. Python, Calculus, Guitar"}
+          disabled={full}
+          data-testid="input-skill-tags"
+        />
+        {focused && query && options.length > 0 && (
+          <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md" data-testid="list-tag-suggestions">
+            {options.map((tag) => (
+              <button
+                key={tag.slug}
+                type="button"
+                className="flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+                // Keep focus in the input so the list doesn't close before the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => add(tag.name)}
+                data-testid={`suggestion-tag-${tag.slug}`}
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-muted-foreground">{tag.skillCount}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
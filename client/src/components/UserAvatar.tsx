@@ -0,0 +1,22 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { avatarVariantUrl, type AvatarSize, type PublicUser } from "@shared/schema";
+
+interface UserAvatarProps {
+  user: Pick<PublicUser, "fullName" | "avatarUrl">;
+  // Pick the stored size closest to how large the avatar is drawn
+  size?: AvatarSize;
+  className?: string;
+  fallbackClassName?: string;
+}
+
+// A user's uploaded avatar, or the first letter of their name until it loads
+export function UserAvatar({ user, size = 64, className, fallbackClassName = "bg-primary/10 text-primary" }: UserAvatarProps) {
+  return (
+    <Avatar className={className}>
+      {user.avatarUrl && (
+        <AvatarImage src={avatarVariantUrl(user.avatarUrl, size)} alt={user.fullName} className="object-cover" />
+      )}
+      <AvatarFallback className={fallbackClassName}>{user.fullName.charAt(0)}</AvatarFallback>
+    </Avatar>
+  );
+}
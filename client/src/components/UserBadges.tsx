@@ -0,0 +1,31 @@
+import { Badge } from "@/components/ui/badge";
+import type { UserBadge } from "@shared/schema";
+import { Award, Star, CheckCircle, ThumbsUp, type LucideIcon } from "lucide-react";
+
+const BADGES: Record<UserBadge, { name: string; icon: LucideIcon; color: string }> = {
+  top_tutor: { name: "Top Tutor", icon: Award, color: "text-yellow-500" },
+  skill_master: { name: "Skill Master", icon: Star, color: "text-purple-500" },
+  getting_started: { name: "Getting Started", icon: CheckCircle, color: "text-green-500" },
+  highly_rated: { name: "Highly Rated", icon: ThumbsUp, color: "text-blue-500" },
+};
+
+export function UserBadges({ badges, className = "" }: { badges: UserBadge[]; className?: string }) {
+  if (badges.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {badges.map((id) => {
+        const badge = BADGES[id];
+        if (!badge) return null;
+        return (
+          <Badge key={id} variant="secondary" className="gap-1" data-testid={`badge-${id}`}>
+            <badge.icon className={`w-3 h-3 ${badge.color}`} />
+            {badge.name}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import {
+  useCategories,
+  categoryTree,
+  categoryIcon,
+  categoryColorClass,
+  CATEGORY_ICON_COMPONENTS,
+} from "@/lib/categories";
+import { CATEGORY_ICONS, CATEGORY_COLORS, type CategoryColor, type CategoryIcon } from "@shared/categories";
+import type { Category } from "@shared/schema";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+// Select value for a top-level category
+const NO_PARENT = "none";
+
+interface CategoryDraft {
+  name: string;
+  icon: CategoryIcon;
+  color: CategoryColor;
+  parentId: string;
+  sortOrder: string;
+}
+
+const EMPTY_DRAFT: CategoryDraft = { name: "", icon: "sparkles", color: "slate", parentId: NO_PARENT, sortOrder: "0" };
+
+function toDraft(category: Category): CategoryDraft {
+  return {
+    name: category.name,
+    icon: category.icon as CategoryIcon,
+    color: category.color as CategoryColor,
+    parentId: category.parentId ?? NO_PARENT,
+    sortOrder: String(category.sortOrder),
+  };
+}
+
+function invalidateCategories() {
+  queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+}
+
+interface CategoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  category: Category | null; // null when adding
+  categories: Category[];
+}
+
+function CategoryDialog({ open, onOpenChange, category, categories }: CategoryDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CategoryDraft>(EMPTY_DRAFT);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(category ? toDraft(category) : EMPTY_DRAFT);
+    }
+  }, [open, category]);
+
+  // Subcategories are one level deep, so only top-level categories can be parents,
+  // and a category with its own subcategories has to stay top-level
+  const hasChildren = !!category && categories.some((c) => c.parentId === category.id);
+  const parentOptions = categories.filter((c) => !c.parentId && c.id !== category?.id);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: draft.name,
+        icon: draft.icon,
+        color: draft.color,
+        parentId: draft.parentId === NO_PARENT ? null : draft.parentId,
+        sortOrder: Number(draft.sortOrder) || 0,
+      };
+      const response = category
+        ? await apiRequest("PATCH", `/api/admin/categories/${category.id}`, body)
+        : await apiRequest("POST", "/api/admin/categories", body);
+      return response.json();
+    },
+    onSuccess: (saved: Category) => {
+      invalidateCategories();
+      onOpenChange(false);
+      toast({ title: category ? "Category updated" : "Category added", description: saved.name });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not save the category."), variant: "destructive" });
+    },
+  });
+
+  const PreviewIcon = CATEGORY_ICON_COMPONENTS[draft.icon];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{category ? "Edit category" : "Add category"}</DialogTitle>
+          <DialogDescription>
+            {category
+              ? `Skills refer to this category as "${category.slug}", which stays the same when you rename it.`
+              : "The category's slug is made from its name and can't be changed later."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-3">
+            <div className={`w-10 h-10 shrink-0 rounded-lg flex items-center justify-center ${categoryColorClass(draft)}`}>
+              <PreviewIcon className="w-5 h-5" />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                maxLength={50}
+                data-testid="input-category-name"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <Select value={draft.icon} onValueChange={(icon) => setDraft({ ...draft, icon: icon as CategoryIcon })}>
+                <SelectTrigger data-testid="select-category-icon">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORY_ICONS.map((icon) => {
+                    const Icon = CATEGORY_ICON_COMPONENTS[icon];
+                    return (
+                      <SelectItem key={icon} value={icon}>
+                        <span className="flex items-center gap-2">
+                          <Icon className="w-4 h-4" />
+                          {icon}
+                        </span>
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Color</Label>
+              <Select value={draft.color} onValueChange={(color) => setDraft({ ...draft, color: color as CategoryColor })}>
+                <SelectTrigger data-testid="select-category-color">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORY_COLORS.map((color) => (
+                    <SelectItem key={color} value={color}>
+                      <span className="flex items-center gap-2 capitalize">
+                        <span className={`w-3 h-3 rounded-full ${categoryColorClass({ color })}`} />
+                        {color}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Parent</Label>
+              <Select
+                value={draft.parentId}
+                onValueChange={(parentId) => setDraft({ ...draft, parentId })}
+                disabled={hasChildren}
+              >
+                <SelectTrigger data-testid="select-category-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                  {parentOptions.map((parent) => (
+                    <SelectItem key={parent.id} value={parent.id}>{parent.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-sort-order">Sort order</Label>
+              <Input
+                id="category-sort-order"
+                type="number"
+                min={0}
+                max={1000}
+                value={draft.sortOrder}
+                onChange={(e) => setDraft({ ...draft, sortOrder: e.target.value })}
+                data-testid="input-category-sort-order"
+              />
+            </div>
+          </div>
+          {hasChildren && (
+            <p className="text-xs text-muted-foreground">This category has subcategories, so it stays at the top level.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!draft.name.trim() || saveMutation.isPending}
+            data-testid="button-save-category"
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {category ? "Save Changes" : "Add Category"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function CategoryManager() {
+  const { toast } = useToast();
+  const { categories, isLoading } = useCategories();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Category | null>(null);
+
+  const openDialog = (category: Category | null) => {
+    setEditing(category);
+    setDialogOpen(true);
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/categories/${id}`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCategories();
+      toast({ title: "Category deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not delete the category."), variant: "destructive" });
+    },
+  });
+
+  const parentName = (id: string | null) => categories.find((c) => c.id === id)?.name;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Skill categories</CardTitle>
+          <CardDescription>
+            What users can file skills under. Categories still used by a skill can't be deleted.
+          </CardDescription>
+        </div>
+        <Button className="gap-2" onClick={() => openDialog(null)} data-testid="button-add-category">
+          <Plus className="w-4 h-4" />
+          Add Category
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : categories.length === 0 ? (
+          <div className="py-12 text-center text-muted-foreground">No categories yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead>Parent</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categoryTree(categories).map(({ category, depth }) => {
+                  const Icon = categoryIcon(category);
+                  return (
+                    <TableRow key={category.id} data-testid={`row-category-${category.slug}`}>
+                      <TableCell>
+                        <div className={`flex items-center gap-3 ${depth > 0 ? "pl-8" : ""}`}>
+                          <div className={`w-8 h-8 rounded-md flex items-center justify-center ${categoryColorClass(category)}`}>
+                            <Icon className="w-4 h-4" />
+                          </div>
+                          <span className="font-medium">{category.name}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground font-mono text-xs">{category.slug}</TableCell>
+                      <TableCell className="text-muted-foreground">{parentName(category.parentId) ?? "—"}</TableCell>
+                      <TableCell className="text-muted-foreground">{category.sortOrder}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openDialog(category)}
+                            data-testid={`button-edit-category-${category.slug}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive"
+                            onClick={() => deleteMutation.mutate(category.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-category-${category.slug}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+      <CategoryDialog open={dialogOpen} onOpenChange={setDialogOpen} category={editing} categories={categories} />
+    </Card>
+  );
+}
@@ -0,0 +1,503 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { UserAvatar } from "@/components/UserAvatar";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { viewerTimeZone, timeZoneOptions } from "@/lib/time";
+import { Loader2, AlertTriangle, Upload } from "lucide-react";
+
+// Matches the server's limits; checked here only to fail fast
+const AVATAR_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+const MAX_AVATAR_MB = 5;
+
+export function AvatarSettings() {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("avatar", file);
+      const response = await apiRequest("POST", "/api/users/me/avatar", formData);
+      return response.json();
+    },
+    onSuccess: async () => {
+      await refetchUser();
+      toast({ title: "Photo updated", description: "Your new profile photo is live." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not upload photo."), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/users/me/avatar", {});
+      return response.json();
+    },
+    onSuccess: async () => {
+      await refetchUser();
+      toast({ title: "Photo removed" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not remove photo."), variant: "destructive" });
+    },
+  });
+
+  const onFileChosen = (file: File | undefined) => {
+    if (fileInput.current) fileInput.current.value = "";
+    if (!file) return;
+    if (!AVATAR_TYPES.includes(file.type)) {
+      toast({ title: "Unsupported file", description: "Choose a JPEG, PNG, WebP or GIF image.", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_AVATAR_MB * 1024 * 1024) {
+      toast({ title: "File too large", description: `Photos must be ${MAX_AVATAR_MB} MB or smaller.`, variant: "destructive" });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  if (!user) return null;
+
+  const isBusy = uploadMutation.isPending || removeMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile photo</CardTitle>
+        <CardDescription>Shown next to your name across SkillSwap</CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center gap-6 flex-wrap">
+        <UserAvatar
+          user={user}
+          size={256}
+          className="w-20 h-20"
+          fallbackClassName="bg-primary text-primary-foreground text-2xl"
+        />
+        <div className="flex gap-2 flex-wrap">
+          <input
+            ref={fileInput}
+            type="file"
+            accept={AVATAR_TYPES.join(",")}
+            className="hidden"
+            onChange={(e) => onFileChosen(e.target.files?.[0])}
+            data-testid="input-avatar-file"
+          />
+          <Button onClick={() => fileInput.current?.click()} disabled={isBusy} className="gap-2" data-testid="button-upload-avatar">
+            {uploadMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Upload photo
+          </Button>
+          {user.avatarUrl && (
+            <Button variant="outline" onClick={() => removeMutation.mutate()} disabled={isBusy} data-testid="button-remove-avatar">
+              Remove
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground w-full">JPEG, PNG, WebP or GIF, up to {MAX_AVATAR_MB} MB. We crop it to a square.</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+const profileSchema = z.object({
+  fullName: z.string().min(2, "Name must be at least 2 characters"),
+  username: z.string().min(3, "Username must be at least 3 characters").max(20, "Username must be at most 20 characters"),
+  bio: z.string().max(500, "Bio must be at most 500 characters"),
+  timeZone: z.string(),
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+export function ProfileSettings() {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      fullName: user?.fullName || "",
+      username: user?.username || "",
+      bio: user?.bio || "",
+      timeZone: viewerTimeZone(user),
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: ProfileFormValues) => {
+      const response = await apiRequest("PATCH", "/api/users/me", data);
+      return response.json();
+    },
+    onSuccess: async () => {
+      await refetchUser();
+      toast({ title: "Profile updated", description: "Your changes have been saved." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not update profile."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>How you appear to other students</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="fullName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full name</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-full-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-username" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="bio"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bio</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Tell others what you're into..." rows={4} {...field} data-testid="input-bio" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="timeZone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Time zone</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-time-zone">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {timeZoneOptions(field.value).map((zone) => (
+                        <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Session times are shown in this zone, and others see it next to theirs</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-profile">
+              {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save profile
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+const emailSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  currentPassword: z.string().min(1, "Enter your current password"),
+});
+
+type EmailFormValues = z.infer<typeof emailSchema>;
+
+export function EmailSettings() {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<EmailFormValues>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: {
+      email: user?.email || "",
+      currentPassword: "",
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: EmailFormValues) => {
+      const response = await apiRequest("PATCH", "/api/users/me", data);
+      return response.json();
+    },
+    onSuccess: async (_, variables) => {
+      await refetchUser();
+      form.reset({ email: variables.email, currentPassword: "" });
+      toast({ title: "Email updated", description: `We sent a verification link to ${variables.email}.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not update email."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle>Email</CardTitle>
+            <CardDescription>Changing your email requires verifying the new address</CardDescription>
+          </div>
+          <Badge variant={user?.emailVerifiedAt ? "default" : "secondary"}>
+            {user?.emailVerifiedAt ? "Verified" : "Unverified"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} data-testid="input-email" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Current password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-email-current-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-email">
+              {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Update email
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+const passwordSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type PasswordFormValues = z.infer<typeof passwordSchema>;
+
+export function PasswordSettings() {
+  const { toast } = useToast();
+
+  const form = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: PasswordFormValues) => {
+      const response = await apiRequest("PATCH", "/api/users/me", { currentPassword, newPassword });
+      return response.json();
+    },
+    onSuccess: () => {
+      form.reset();
+      toast({ title: "Password changed", description: "Other devices have been signed out." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not change password."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <CardDescription>Changing your password signs out your other devices</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Current password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-current-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-new-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm new password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-confirm-new-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-password">
+              {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change password
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function DeleteAccount() {
+  const { refetchUser } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/users/me", { password });
+      return response.json();
+    },
+    onSuccess: async () => {
+      setDialogOpen(false);
+      await refetchUser();
+      setLocation("/");
+      toast({ title: "Account deleted", description: "Your account and data have been removed." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not delete account."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle className="text-destructive">Delete account</CardTitle>
+        <CardDescription>
+          Permanently remove your account, skills, sessions and reviews. This cannot be undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button variant="destructive" onClick={() => setDialogOpen(true)} data-testid="button-delete-account">
+          Delete my account
+        </Button>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              Delete your account
+            </DialogTitle>
+            <DialogDescription>
+              Enter your password to confirm. All your skills, sessions and reviews will be permanently removed.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="delete-account-password">Password</Label>
+            <Input
+              id="delete-account-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="mt-2"
+              data-testid="input-delete-account-password"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={!password || deleteMutation.isPending}
+              data-testid="button-confirm-delete-account"
+            >
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete account"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
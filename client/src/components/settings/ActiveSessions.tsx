@@ -0,0 +1,140 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ActiveSession } from "@shared/schema";
+import { Loader2, Monitor, Smartphone, LogOut } from "lucide-react";
+
+// Rough "Chrome on Windows" style label; good enough to recognise a device
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /CrOS/.test(userAgent) ? "ChromeOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "unknown OS";
+
+  return `${browser} on ${os}`;
+}
+
+function isMobile(userAgent: string | null) {
+  return !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+}
+
+export function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/auth/sessions/${id}`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session revoked", description: "That device has been signed out." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not revoke session.", variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/auth/sessions", {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Signed out elsewhere", description: "All other devices have been signed out." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not sign out other sessions.", variant: "destructive" });
+    },
+  });
+
+  const otherSessions = sessions.filter((s) => !s.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle>Active sessions</CardTitle>
+            <CardDescription>Devices that are currently signed in to your account</CardDescription>
+          </div>
+          {otherSessions.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={revokeOthersMutation.isPending}
+              data-testid="button-revoke-other-sessions"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out other devices
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="divide-y">
+            {sessions.map((s) => {
+              const DeviceIcon = isMobile(s.userAgent) ? Smartphone : Monitor;
+              return (
+                <div key={s.id} className="flex items-center gap-4 py-3" data-testid={`row-session-${s.id}`}>
+                  <DeviceIcon className="w-5 h-5 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-medium">{describeUserAgent(s.userAgent)}</p>
+                      {s.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {s.ip || "Unknown IP"}
+                      {s.lastSeenAt && ` · Last active ${new Date(s.lastSeenAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  {!s.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => revokeMutation.mutate(s.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-session-${s.id}`}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import type { ApiTokenInfo } from "@shared/schema";
+import { API_TOKEN_SCOPES, API_TOKEN_SCOPE_LABELS, type ApiTokenScope } from "@shared/permissions";
+import { Loader2, KeyRound, Copy, Trash2 } from "lucide-react";
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+function CreateTokenDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read:skills"]);
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const reset = () => {
+    setName("");
+    setScopes(["read:skills"]);
+    setExpiry("90");
+    setCreatedToken(null);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/users/me/tokens", {
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? null : parseInt(expiry, 10),
+      });
+      return response.json() as Promise<{ token: string; info: ApiTokenInfo }>;
+    },
+    onSuccess: (data) => {
+      setCreatedToken(data.token);
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/tokens"] });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not create token."), variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({ title: "Copied", description: "The token is on your clipboard." });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogContent>
+        {createdToken ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Copy your new token</DialogTitle>
+              <DialogDescription>
+                This is the only time it will be shown. Send it as <code>Authorization: Bearer &lt;token&gt;</code>.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex items-center gap-2">
+              <Input readOnly value={createdToken} className="font-mono text-xs" data-testid="input-new-token" />
+              <Button variant="outline" size="icon" onClick={copyToken} data-testid="button-copy-token">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => { onOpenChange(false); reset(); }}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>New access token</DialogTitle>
+              <DialogDescription>Give the token only the access your script needs</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="token-name">Name</Label>
+                <Input
+                  id="token-name"
+                  placeholder="e.g. Skill import script"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  data-testid="input-token-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {API_TOKEN_SCOPES.map((scope) => (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      data-testid={`checkbox-scope-${scope}`}
+                    />
+                    <Label htmlFor={`scope-${scope}`} className="font-normal">
+                      <span className="font-mono text-xs mr-2">{scope}</span>
+                      <span className="text-muted-foreground">{API_TOKEN_SCOPE_LABELS[scope]}</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label>Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger data-testid="select-token-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                data-testid="button-create-token"
+              >
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create token
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ApiTokenSettings() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: ["/api/users/me/tokens"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/users/me/tokens/${id}`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/tokens"] });
+      toast({ title: "Token revoked", description: "Scripts using it will stop working." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not revoke token.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5" />
+              Personal access tokens
+            </CardTitle>
+            <CardDescription>Let your own scripts and tools use the SkillSwap API as you</CardDescription>
+          </div>
+          <Button onClick={() => setDialogOpen(true)} data-testid="button-new-token">
+            New token
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven't created any tokens.</p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {tokens.map((token) => {
+              const expired = token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now();
+              return (
+                <div key={token.id} className="flex items-start justify-between gap-4 p-3" data-testid={`row-token-${token.id}`}>
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-medium">{token.name}</p>
+                      <code className="text-xs text-muted-foreground">{token.prefix}…</code>
+                      {expired && <Badge variant="destructive">Expired</Badge>}
+                    </div>
+                    <div className="flex gap-1 flex-wrap">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary" className="font-mono text-xs">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : "Never used"}
+                      {" · "}
+                      {token.expiresAt ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}` : "No expiry"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive shrink-0"
+                    onClick={() => revokeMutation.mutate(token.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-token-${token.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <CreateTokenDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+    </Card>
+  );
+}
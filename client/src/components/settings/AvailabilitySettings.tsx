@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { WEEKDAYS, viewerTimeZone, timeZoneOptions, minutesToTime, timeToMinutes, localDateKey } from "@/lib/time";
+import { SESSION_SLOT_MINUTES, type AvailabilitySchedule } from "@shared/schema";
+import { Loader2, CalendarClock, CalendarOff, Plus, Trash2 } from "lucide-react";
+
+interface WindowDraft {
+  weekday: number;
+  start: string;
+  end: string;
+}
+
+function WeeklyHours({ schedule }: { schedule: AvailabilitySchedule }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [timeZone, setTimeZone] = useState(schedule.timeZone ?? viewerTimeZone(user));
+  const [windows, setWindows] = useState<WindowDraft[]>([]);
+
+  useEffect(() => {
+    setTimeZone(schedule.timeZone ?? viewerTimeZone(user));
+    setWindows(
+      schedule.windows.map((w) => ({ weekday: w.weekday, start: minutesToTime(w.startMinute), end: minutesToTime(w.endMinute) })),
+    );
+  }, [schedule]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/users/me/availability", {
+        timeZone,
+        windows: windows.map((w) => ({
+          weekday: w.weekday,
+          startMinute: timeToMinutes(w.start),
+          endMinute: timeToMinutes(w.end, true),
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/availability"] });
+      toast({ title: "Availability saved", description: "Learners can now book the times you're free." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not save availability."), variant: "destructive" });
+    },
+  });
+
+  const updateWindow = (index: number, change: Partial<WindowDraft>) => {
+    setWindows((current) => current.map((w, i) => (i === index ? { ...w, ...change } : w)));
+  };
+
+  const tooShort = windows.some((w) => timeToMinutes(w.end, true) - timeToMinutes(w.start) < SESSION_SLOT_MINUTES);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Weekly hours
+        </CardTitle>
+        <CardDescription>
+          When you're usually free to teach. Learners pick a {SESSION_SLOT_MINUTES}-minute slot from these times.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Time zone</Label>
+          <Select value={timeZone} onValueChange={setTimeZone}>
+            <SelectTrigger className="w-full sm:w-72" data-testid="select-availability-timezone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZoneOptions(timeZone).map((zone) => (
+                <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {windows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You haven't added any hours, so learners will suggest times in their message instead.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {windows.map((window, index) => (
+              <div key={index} className="flex items-center gap-2 flex-wrap" data-testid={`row-window-${index}`}>
+                <Select value={String(window.weekday)} onValueChange={(value) => updateWindow(index, { weekday: Number(value) })}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, weekday) => (
+                      <SelectItem key={day} value={String(weekday)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="time"
+                  value={window.start}
+                  onChange={(e) => updateWindow(index, { start: e.target.value })}
+                  className="w-32"
+                  data-testid={`input-window-start-${index}`}
+                />
+                <span className="text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  value={window.end}
+                  onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  className="w-32"
+                  data-testid={`input-window-end-${index}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => setWindows((current) => current.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-window-${index}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {tooShort && (
+          <p className="text-sm text-destructive">Each window must be at least {SESSION_SLOT_MINUTES} minutes long.</p>
+        )}
+
+        <div className="flex gap-2 flex-wrap">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setWindows((current) => [...current, { weekday: 1, start: "16:00", end: "18:00" }])}
+            data-testid="button-add-window"
+          >
+            <Plus className="w-4 h-4" />
+            Add hours
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={tooShort || windows.some((w) => !w.start || !w.end) || saveMutation.isPending}
+            data-testid="button-save-availability"
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save hours
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TimeOff({ schedule }: { schedule: AvailabilitySchedule }) {
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [reason, setReason] = useState("");
+  const today = localDateKey(new Date());
+  const upcoming = schedule.exceptions.filter((e) => e.date >= today);
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/users/me/availability/exceptions", { date, reason: reason || null });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/availability"] });
+      setDate("");
+      setReason("");
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not add the day off."), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/users/me/availability/exceptions/${id}`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/availability"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not remove the day off.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="w-5 h-5" />
+          Days off
+        </CardTitle>
+        <CardDescription>Holidays and other days you can't teach, even if your weekly hours cover them</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2 flex-wrap">
+          <div className="space-y-2">
+            <Label htmlFor="exception-date">Date</Label>
+            <Input
+              id="exception-date"
+              type="date"
+              min={today}
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-44"
+              data-testid="input-exception-date"
+            />
+          </div>
+          <div className="space-y-2 flex-1 min-w-[10rem]">
+            <Label htmlFor="exception-reason">Note (optional)</Label>
+            <Input
+              id="exception-reason"
+              placeholder="e.g. Spring break"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={200}
+              data-testid="input-exception-reason"
+            />
+          </div>
+          <Button onClick={() => addMutation.mutate()} disabled={!date || addMutation.isPending} data-testid="button-add-exception">
+            {addMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add day off
+          </Button>
+        </div>
+
+        {upcoming.length > 0 && (
+          <div className="divide-y border rounded-md">
+            {upcoming.map((exception) => (
+              <div key={exception.id} className="flex items-center justify-between gap-4 p-3" data-testid={`row-exception-${exception.id}`}>
+                <div>
+                  <p className="text-sm font-medium">
+                    {new Date(`${exception.date}T00:00:00`).toLocaleDateString(undefined, {
+                      weekday: "long",
+                      month: "long",
+                      day: "numeric",
+                      year: "numeric",
+                    })}
+                  </p>
+                  {exception.reason && <p className="text-xs text-muted-foreground">{exception.reason}</p>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => removeMutation.mutate(exception.id)}
+                  disabled={removeMutation.isPending}
+                  data-testid={`button-remove-exception-${exception.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function AvailabilitySettings() {
+  const { data: schedule, isLoading } = useQuery<AvailabilitySchedule>({
+    queryKey: ["/api/users/me/availability"],
+  });
+
+  if (isLoading || !schedule) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <WeeklyHours schedule={schedule} />
+      <TimeOff schedule={schedule} />
+    </>
+  );
+}
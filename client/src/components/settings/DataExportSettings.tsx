@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { DataExportInfo } from "@shared/schema";
+import { Loader2, Download, FileArchive } from "lucide-react";
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function DataExportSettings() {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: exports = [] } = useQuery<DataExportInfo[]>({
+    queryKey: ["/api/users/me/exports"],
+    // Poll while a background export is being built
+    refetchInterval: (query) =>
+      query.state.data?.some((e) => e.status === "pending") ? 5000 : false,
+  });
+
+  const requestExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest("POST", "/api/users/me/export");
+      if (response.status === 202) {
+        queryClient.invalidateQueries({ queryKey: ["/api/users/me/exports"] });
+        toast({ title: "Preparing your export", description: "Your account has a lot of data. A download link will appear here shortly." });
+      } else {
+        const fileName = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "skillswap-export.zip";
+        saveBlob(await response.blob(), fileName);
+      }
+    } catch {
+      toast({ title: "Error", description: "Could not export your data. Please try again.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const statusBadge: Record<string, "default" | "secondary" | "destructive"> = {
+    ready: "default",
+    pending: "secondary",
+    failed: "destructive",
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileArchive className="w-5 h-5" />
+          Download your data
+        </CardTitle>
+        <CardDescription>
+          Get a zip with your profile, skills, sessions, reviews and messages as JSON and CSV
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button onClick={requestExport} disabled={isExporting} className="gap-2" data-testid="button-export-data">
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export my data
+        </Button>
+
+        {exports.length > 0 && (
+          <div className="divide-y border rounded-md">
+            {exports.map((e) => (
+              <div key={e.id} className="flex items-center justify-between gap-4 p-3" data-testid={`row-export-${e.id}`}>
+                <div>
+                  <p className="text-sm font-medium">Requested {new Date(e.createdAt).toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Available until {new Date(e.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={statusBadge[e.status] || "secondary"} className="capitalize">{e.status}</Badge>
+                  {e.downloadUrl && (
+                    <a href={e.downloadUrl} data-testid={`link-download-export-${e.id}`}>
+                      <Button size="sm" variant="outline" className="gap-1">
+                        <Download className="w-3 h-3" />
+                        Download
+                      </Button>
+                    </a>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
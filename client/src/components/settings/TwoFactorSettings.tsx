@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, ShieldCheck, ShieldOff, KeyRound, Copy } from "lucide-react";
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid="input-2fa-code">
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [disableOpen, setDisableOpen] = useState(false);
+  const [regenerateOpen, setRegenerateOpen] = useState(false);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup", {});
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not start two-factor setup.", variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: async (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      await refetchUser();
+      toast({ title: "Two-factor enabled", description: "Save your recovery codes somewhere safe." });
+    },
+    onError: () => {
+      setCode("");
+      toast({ title: "Invalid code", description: "Check your authenticator app and try again.", variant: "destructive" });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setRegenerateOpen(false);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError: () => {
+      setCode("");
+      toast({ title: "Invalid code", description: "Could not generate new recovery codes.", variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/disable", { password, code });
+      return response.json();
+    },
+    onSuccess: async () => {
+      setDisableOpen(false);
+      setPassword("");
+      setCode("");
+      await refetchUser();
+      toast({ title: "Two-factor disabled", description: "Your account now only needs a password to sign in." });
+    },
+    onError: () => {
+      setCode("");
+      toast({ title: "Error", description: "Could not disable two-factor authentication.", variant: "destructive" });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" />
+              Two-factor authentication
+            </CardTitle>
+            <CardDescription>Require a code from an authenticator app when you sign in</CardDescription>
+          </div>
+          <Badge variant={user.totpEnabledAt ? "default" : "secondary"} data-testid="badge-2fa-status">
+            {user.totpEnabledAt ? "Enabled" : "Off"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user.totpEnabledAt ? (
+          <div className="flex gap-2 flex-wrap">
+            <Button variant="outline" className="gap-2" onClick={() => setRegenerateOpen(true)} data-testid="button-regenerate-recovery-codes">
+              <KeyRound className="w-4 h-4" />
+              New recovery codes
+            </Button>
+            <Button variant="outline" className="gap-2 text-destructive" onClick={() => setDisableOpen(true)} data-testid="button-disable-2fa">
+              <ShieldOff className="w-4 h-4" />
+              Disable
+            </Button>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4" data-testid="panel-2fa-setup">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, or enter the key manually, then type the 6-digit code it shows.
+            </p>
+            <div className="flex flex-col sm:flex-row items-center gap-4">
+              <img src={setup.qrCode} alt="Two-factor QR code" className="w-40 h-40 rounded-md border bg-white p-2" />
+              <div className="space-y-2">
+                <Label>Setup key</Label>
+                <code className="block text-xs break-all bg-muted p-2 rounded-md" data-testid="text-2fa-secret">{setup.secret}</code>
+              </div>
+            </div>
+            <CodeInput value={code} onChange={setCode} />
+            <div className="flex gap-2">
+              <Button
+                onClick={() => enableMutation.mutate()}
+                disabled={code.length < 6 || enableMutation.isPending}
+                data-testid="button-enable-2fa"
+              >
+                {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Verify and enable
+              </Button>
+              <Button variant="ghost" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-2fa">
+            {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set up two-factor authentication
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Recovery codes</DialogTitle>
+            <DialogDescription>
+              Each code can be used once to sign in if you lose your authenticator. They won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm" data-testid="list-recovery-codes">
+            {recoveryCodes?.map((recoveryCode) => (
+              <code key={recoveryCode} className="bg-muted p-2 rounded-md text-center">{recoveryCode}</code>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => {
+                navigator.clipboard.writeText(recoveryCodes?.join("\n") || "");
+                toast({ title: "Copied", description: "Recovery codes copied to clipboard." });
+              }}
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>I've saved them</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={regenerateOpen} onOpenChange={setRegenerateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Generate new recovery codes</DialogTitle>
+            <DialogDescription>Your old recovery codes will stop working. Enter a code from your authenticator app to continue.</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-center">
+            <CodeInput value={code} onChange={setCode} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRegenerateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => regenerateMutation.mutate()}
+              disabled={code.length < 6 || regenerateMutation.isPending}
+              data-testid="button-confirm-regenerate"
+            >
+              {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Generate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={disableOpen} onOpenChange={setDisableOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Disable two-factor authentication</DialogTitle>
+            <DialogDescription>Confirm your password and a current code (or a recovery code).</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="disable-2fa-password">Password</Label>
+              <Input
+                id="disable-2fa-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-2"
+                data-testid="input-disable-2fa-password"
+              />
+            </div>
+            <div>
+              <Label htmlFor="disable-2fa-code">Authentication or recovery code</Label>
+              <Input
+                id="disable-2fa-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                className="mt-2"
+                data-testid="input-disable-2fa-code"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisableOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => disableMutation.mutate()}
+              disabled={!password || !code || disableMutation.isPending}
+              data-testid="button-confirm-disable-2fa"
+            >
+              {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Disable
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
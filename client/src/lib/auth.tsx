@@ -1,12 +1,17 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from "react";
-import type { User } from "@shared/schema";
+import type { SafeUser } from "@shared/schema";
 import { apiRequest } from "./queryClient";
+import { browserTimeZone } from "./time";
 import { useToast } from "@/hooks/use-toast";
 
+// "two_factor" means the password was right and verifyTwoFactor must be called next
+export type LoginResult = "success" | "two_factor" | "failed";
+
 interface AuthContextType {
-  user: User | null;
+  user: SafeUser | null;
   isLoading: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<boolean>;
   register: (data: { username: string; password: string; email: string; fullName: string }) => Promise<boolean>;
   logout: () => Promise<void>;
   refetchUser: () => Promise<void>;
@@ -15,7 +20,7 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<SafeUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
 
@@ -39,30 +44,50 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     fetchUser();
   }, []);
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  const login = async (username: string, password: string): Promise<LoginResult> => {
     try {
       const response = await apiRequest("POST", "/api/auth/login", { username, password });
       const data = await response.json();
       if (response.ok) {
+        if (data.twoFactorRequired) {
+          return "two_factor";
+        }
         setUser(data.user);
         toast({ title: "Welcome back!", description: `Logged in as ${data.user.fullName}` });
-        return true;
+        return "success";
       }
       toast({ title: "Login failed", description: data.message || "Invalid credentials", variant: "destructive" });
-      return false;
+      return "failed";
+    } catch (error) {
+      const description = error instanceof Error && error.message.startsWith("429")
+        ? "Too many attempts. Please wait a few minutes and try again."
+        : "Something went wrong. Please try again.";
+      toast({ title: "Login failed", description, variant: "destructive" });
+      return "failed";
+    }
+  };
+
+  const verifyTwoFactor = async (code: string): Promise<boolean> => {
+    try {
+      const response = await apiRequest("POST", "/api/auth/login/2fa", { code });
+      const data = await response.json();
+      setUser(data.user);
+      toast({ title: "Welcome back!", description: `Logged in as ${data.user.fullName}` });
+      return true;
     } catch (error) {
-      toast({ title: "Login failed", description: "Something went wrong. Please try again.", variant: "destructive" });
+      toast({ title: "Verification failed", description: "That code didn't work. Please try again.", variant: "destructive" });
       return false;
     }
   };
 
   const register = async (data: { username: string; password: string; email: string; fullName: string }): Promise<boolean> => {
     try {
-      const response = await apiRequest("POST", "/api/auth/register", data);
+      // Start new accounts in this device's zone; it can be changed in settings
+      const response = await apiRequest("POST", "/api/auth/register", { ...data, timeZone: browserTimeZone() });
       const result = await response.json();
       if (response.ok) {
         setUser(result.user);
-        toast({ title: "Welcome to SkillSwap!", description: "Your account has been created successfully." });
+        toast({ title: "Welcome to SkillSwap!", description: `We sent a verification link to ${result.user.email}.` });
         return true;
       }
       toast({ title: "Registration failed", description: result.message || "Could not create account", variant: "destructive" });
@@ -84,7 +109,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, register, logout, refetchUser: fetchUser }}>
+    <AuthContext.Provider value={{ user, isLoading, login, verifyTwoFactor, register, logout, refetchUser: fetchUser }}>
       {children}
     </AuthContext.Provider>
   );
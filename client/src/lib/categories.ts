@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Category } from "@shared/schema";
+import type { CategoryColor, CategoryIcon } from "@shared/categories";
+import {
+  BookOpen,
+  Briefcase,
+  Calculator,
+  Camera,
+  ChefHat,
+  Code,
+  Dumbbell,
+  FlaskConical,
+  Gamepad2,
+  Globe,
+  HeartPulse,
+  Languages,
+  Music,
+  Palette,
+  PenTool,
+  Sparkles,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react";
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIcon, LucideIcon> = {
+  code: Code,
+  calculator: Calculator,
+  "flask-conical": FlaskConical,
+  languages: Languages,
+  music: Music,
+  palette: Palette,
+  "pen-tool": PenTool,
+  dumbbell: Dumbbell,
+  "book-open": BookOpen,
+  briefcase: Briefcase,
+  camera: Camera,
+  "chef-hat": ChefHat,
+  "heart-pulse": HeartPulse,
+  globe: Globe,
+  wrench: Wrench,
+  "gamepad-2": Gamepad2,
+  sparkles: Sparkles,
+};
+
+export const CATEGORY_COLOR_CLASSES: Record<CategoryColor, string> = {
+  blue: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+  green: "bg-green-500/10 text-green-600 dark:text-green-400",
+  purple: "bg-purple-500/10 text-purple-600 dark:text-purple-400",
+  pink: "bg-pink-500/10 text-pink-600 dark:text-pink-400",
+  orange: "bg-orange-500/10 text-orange-600 dark:text-orange-400",
+  teal: "bg-teal-500/10 text-teal-600 dark:text-teal-400",
+  amber: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+  red: "bg-red-500/10 text-red-600 dark:text-red-400",
+  indigo: "bg-indigo-500/10 text-indigo-600 dark:text-indigo-400",
+  slate: "bg-slate-500/10 text-slate-600 dark:text-slate-400",
+};
+
+export function categoryIcon(category: Pick<Category, "icon">): LucideIcon {
+  return CATEGORY_ICON_COMPONENTS[category.icon as CategoryIcon] ?? Sparkles;
+}
+
+export function categoryColorClass(category: Pick<Category, "color">): string {
+  return CATEGORY_COLOR_CLASSES[category.color as CategoryColor] ?? CATEGORY_COLOR_CLASSES.slate;
+}
+
+// Top-level categories in order, each followed by its subcategories
+export function categoryTree(categories: Category[]): { category: Category; depth: number }[] {
+  return categories
+    .filter((c) => !c.parentId)
+    .flatMap((parent) => [
+      { category: parent, depth: 0 },
+      ...categories.filter((c) => c.parentId === parent.id).map((category) => ({ category, depth: 1 })),
+    ]);
+}
+
+export function useCategories() {
+  const { data: categories = [], isLoading } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const bySlug = useMemo(() => new Map(categories.map((c) => [c.slug, c])), [categories]);
+
+  // Skills keep their slug if their category is later deleted, so fall back to it
+  const categoryName = (slug: string) => bySlug.get(slug)?.name ?? slug;
+
+  return { categories, isLoading, categoryName };
+}
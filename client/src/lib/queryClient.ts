@@ -7,17 +7,67 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Pulls the server's message out of the "<status>: <body>" errors thrown by apiRequest
+export function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error) {
+    const body = error.message.replace(/^\d+: /, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return fallback;
+    }
+  }
+  return fallback;
+}
+
+// CSRF token for state-changing requests, fetched lazily and refreshed when
+// the server rejects it (e.g. after logging out, which ends the session)
+let csrfToken: string | null = null;
+
+async function getCsrfToken(refresh = false): Promise<string> {
+  if (!csrfToken || refresh) {
+    const res = await fetch("/api/auth/csrf", { credentials: "include" });
+    await throwIfResNotOk(res);
+    csrfToken = (await res.json()).csrfToken as string;
+  }
+  return csrfToken;
+}
+
+async function isCsrfRejection(res: Response) {
+  if (res.status !== 403) return false;
+  try {
+    const body = await res.clone().json();
+    return body?.code === "CSRF_INVALID";
+  } catch {
+    return false;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
-    method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
-  });
+  const needsCsrf = !["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase());
+
+  // FormData (file uploads) is sent as multipart; the browser sets the boundary
+  const isFormData = data instanceof FormData;
+
+  const send = async (token?: string) =>
+    fetch(url, {
+      method,
+      headers: {
+        ...(data && !isFormData ? { "Content-Type": "application/json" } : {}),
+        ...(token ? { "X-CSRF-Token": token } : {}),
+      },
+      body: isFormData ? data : data ? JSON.stringify(data) : undefined,
+      credentials: "include",
+    });
+
+  let res = await send(needsCsrf ? await getCsrfToken() : undefined);
+  if (needsCsrf && (await isCsrfRejection(res))) {
+    res = await send(await getCsrfToken(true));
+  }
 
   await throwIfResNotOk(res);
   return res;
@@ -0,0 +1,39 @@
+// Indexed like Date#getDay and availability_windows.weekday
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+// The zone to show times in: the user's preference, else this device's
+export function viewerTimeZone(user: { timeZone: string | null } | null | undefined): string {
+  return user?.timeZone || browserTimeZone();
+}
+
+// Every IANA zone the browser knows, for time zone pickers
+export function timeZoneOptions(current?: string | null): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [browserTimeZone()];
+  return current && !zones.includes(current) ? [current, ...zones] : zones;
+}
+
+// "HH:MM" for an <input type="time">; the end of the day shows as 00:00
+export function minutesToTime(minutes: number): string {
+  const wrapped = minutes % (24 * 60);
+  return `${String(Math.floor(wrapped / 60)).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`;
+}
+
+// Minutes since midnight. An end time of 00:00 means midnight at the end of the day.
+export function timeToMinutes(time: string, isEnd = false): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  const total = hours * 60 + minutes;
+  return isEnd && total === 0 ? 24 * 60 : total;
+}
+
+// YYYY-MM-DD for a date as seen on this device
+export function localDateKey(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
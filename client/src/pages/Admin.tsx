@@ -1,20 +1,25 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
+import { UserAvatar } from "@/components/UserAvatar";
+import { CategoryManager } from "@/components/admin/CategoryManager";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { User, Skill } from "@shared/schema";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import type { SafeUser } from "@shared/schema";
+import { ROLE_LABELS, hasPermission, canManageUser, assignableRoles, isRole, type Permission, type Role } from "@shared/permissions";
 import { 
   Users, 
   Loader2, 
@@ -22,7 +27,9 @@ import {
   BarChart3,
   Shield,
   Search,
-  AlertTriangle
+  AlertTriangle,
+  Settings,
+  Tags
 } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 
@@ -34,24 +41,39 @@ interface AdminStats {
   sessionsByStatus: { name: string; value: number }[];
 }
 
+interface AdminSettings {
+  requireAdmin2fa: boolean;
+}
+
 const COLORS = ["#14b8a6", "#8b5cf6", "#f59e0b", "#ec4899", "#3b82f6"];
 
+function roleLabel(role: string) {
+  return isRole(role) ? ROLE_LABELS[role] : role;
+}
+
 export default function Admin() {
   const { user, logout, isLoading: authLoading } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [userToDelete, setUserToDelete] = useState<SafeUser | null>(null);
+
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
 
-  const { data: users = [], isLoading: usersLoading } = useQuery<User[]>({
+  const { data: users = [], isLoading: usersLoading, error: usersError } = useQuery<SafeUser[]>({
     queryKey: ["/api/admin/users"],
-    enabled: !!user?.isAdmin,
+    enabled: can("users.view"),
+  });
+
+  const { data: settings } = useQuery<AdminSettings>({
+    queryKey: ["/api/admin/settings"],
+    enabled: can("settings.manage"),
   });
 
-  const { data: stats, isLoading: statsLoading } = useQuery<AdminStats>({
+  const { data: stats, isLoading: statsLoading, error: statsError } = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
-    enabled: !!user?.isAdmin,
+    enabled: can("stats.view"),
   });
 
   const deleteUserMutation = useMutation({
@@ -66,22 +88,36 @@ export default function Admin() {
       setUserToDelete(null);
       toast({ title: "User deleted", description: "The user has been removed from the system." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Could not delete user.", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not delete user."), variant: "destructive" });
     },
   });
 
-  const toggleAdminMutation = useMutation({
-    mutationFn: async ({ userId, isAdmin }: { userId: string; isAdmin: boolean }) => {
-      const response = await apiRequest("PATCH", `/api/admin/users/${userId}`, { isAdmin });
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: Role }) => {
+      const response = await apiRequest("PATCH", `/api/admin/users/${userId}`, { role });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (updated: SafeUser) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
-      toast({ title: "User updated", description: "Admin status has been changed." });
+      toast({ title: "Role updated", description: `${updated.fullName} is now ${roleLabel(updated.role).toLowerCase()}.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not update role."), variant: "destructive" });
+    },
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (data: AdminSettings) => {
+      const response = await apiRequest("PATCH", "/api/admin/settings", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+      toast({ title: "Settings saved", description: "Security policy has been updated." });
     },
     onError: () => {
-      toast({ title: "Error", description: "Could not update user.", variant: "destructive" });
+      toast({ title: "Error", description: "Could not update settings.", variant: "destructive" });
     },
   });
 
@@ -98,7 +134,7 @@ export default function Admin() {
     return null;
   }
 
-  if (!user.isAdmin) {
+  if (!can("admin.access")) {
     return (
       <div className="min-h-screen flex flex-col">
         <Header user={user} onLogout={logout} />
@@ -118,6 +154,30 @@ export default function Admin() {
     );
   }
 
+  // The server refuses admin APIs to staff without 2FA once the policy is on
+  if ([usersError, statsError].some((error) => error?.message.includes("TWO_FACTOR_REQUIRED"))) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header user={user} onLogout={logout} />
+        <main className="flex-1 flex items-center justify-center">
+          <Card className="max-w-md w-full mx-4">
+            <CardContent className="py-12 text-center">
+              <Shield className="w-16 h-16 mx-auto text-primary mb-4" />
+              <h2 className="text-xl font-bold mb-2">Two-factor authentication required</h2>
+              <p className="text-muted-foreground mb-6">
+                Staff must turn on two-factor authentication before using the admin panel.
+              </p>
+              <Link href="/settings">
+                <Button data-testid="button-go-to-security">Set up two-factor</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
   const filteredUsers = users.filter(
     (u) =>
       u.fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -142,10 +202,24 @@ export default function Admin() {
                 <BarChart3 className="w-4 h-4" />
                 Dashboard
               </TabsTrigger>
-              <TabsTrigger value="users" className="gap-2" data-testid="tab-users">
-                <Users className="w-4 h-4" />
-                Users
-              </TabsTrigger>
+              {can("users.view") && (
+                <TabsTrigger value="users" className="gap-2" data-testid="tab-users">
+                  <Users className="w-4 h-4" />
+                  Users
+                </TabsTrigger>
+              )}
+              {can("categories.manage") && (
+                <TabsTrigger value="categories" className="gap-2" data-testid="tab-categories">
+                  <Tags className="w-4 h-4" />
+                  Categories
+                </TabsTrigger>
+              )}
+              {can("settings.manage") && (
+                <TabsTrigger value="settings" className="gap-2" data-testid="tab-settings">
+                  <Settings className="w-4 h-4" />
+                  Settings
+                </TabsTrigger>
+              )}
             </TabsList>
 
             <TabsContent value="dashboard" className="space-y-6">
@@ -291,35 +365,44 @@ export default function Admin() {
                             <TableRow key={u.id} data-testid={`row-user-${u.id}`}>
                               <TableCell>
                                 <div className="flex items-center gap-3">
-                                  <Avatar>
-                                    <AvatarFallback className="bg-primary/10 text-primary">
-                                      {u.fullName.charAt(0)}
-                                    </AvatarFallback>
-                                  </Avatar>
+                                  <UserAvatar user={u} />
                                   <span className="font-medium">{u.fullName}</span>
                                 </div>
                               </TableCell>
                               <TableCell className="text-muted-foreground">@{u.username}</TableCell>
                               <TableCell className="text-muted-foreground">{u.email}</TableCell>
                               <TableCell>
-                                <Badge variant={u.isAdmin ? "default" : "secondary"}>
-                                  {u.isAdmin ? "Admin" : "User"}
-                                </Badge>
+                                <div className="flex items-center gap-1">
+                                  {can("users.role") && u.id !== user.id && canManageUser(user.role, u.role) ? (
+                                    <Select
+                                      value={u.role}
+                                      onValueChange={(role) => updateRoleMutation.mutate({ userId: u.id, role: role as Role })}
+                                      disabled={updateRoleMutation.isPending}
+                                    >
+                                      <SelectTrigger className="w-[140px] h-8" data-testid={`select-role-${u.id}`}>
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {assignableRoles(user.role).map((role) => (
+                                          <SelectItem key={role} value={role}>
+                                            {ROLE_LABELS[role]}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  ) : (
+                                    <Badge variant={u.role === "user" ? "secondary" : "default"} data-testid={`badge-role-${u.id}`}>
+                                      {roleLabel(u.role)}
+                                    </Badge>
+                                  )}
+                                  {u.totpEnabledAt && <Badge variant="outline">2FA</Badge>}
+                                </div>
                               </TableCell>
                               <TableCell className="text-muted-foreground">
                                 {new Date(u.createdAt).toLocaleDateString()}
                               </TableCell>
                               <TableCell className="text-right">
                                 <div className="flex items-center justify-end gap-2">
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => toggleAdminMutation.mutate({ userId: u.id, isAdmin: !u.isAdmin })}
-                                    disabled={u.id === user.id || toggleAdminMutation.isPending}
-                                    data-testid={`button-toggle-admin-${u.id}`}
-                                  >
-                                    {u.isAdmin ? "Remove Admin" : "Make Admin"}
-                                  </Button>
                                   <Button
                                     variant="ghost"
                                     size="icon"
@@ -328,7 +411,7 @@ export default function Admin() {
                                       setUserToDelete(u);
                                       setDeleteDialogOpen(true);
                                     }}
-                                    disabled={u.id === user.id}
+                                    disabled={u.id === user.id || !can("users.delete") || !canManageUser(user.role, u.role)}
                                     data-testid={`button-delete-${u.id}`}
                                   >
                                     <Trash2 className="w-4 h-4" />
@@ -344,6 +427,46 @@ export default function Admin() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="categories" className="space-y-4">
+              <CategoryManager />
+            </TabsContent>
+
+            <TabsContent value="settings" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Security policy</CardTitle>
+                  <CardDescription>Rules that apply to every staff account</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="require-admin-2fa">Require two-factor authentication for staff</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Moderators and admins without 2FA are locked out of the admin panel until they enable it.
+                      </p>
+                    </div>
+                    <Switch
+                      id="require-admin-2fa"
+                      checked={settings?.requireAdmin2fa ?? false}
+                      onCheckedChange={(checked) => {
+                        if (checked && !user.totpEnabledAt) {
+                          toast({
+                            title: "Enable 2FA first",
+                            description: "Turn on two-factor authentication for your own account before requiring it.",
+                            variant: "destructive",
+                          });
+                          return;
+                        }
+                        updateSettingsMutation.mutate({ requireAdmin2fa: checked });
+                      }}
+                      disabled={!settings || updateSettingsMutation.isPending}
+                      data-testid="switch-require-admin-2fa"
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
         </div>
       </main>
@@ -1,25 +1,36 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
+import { UserAvatar } from "@/components/UserAvatar";
+import { EmailVerificationBanner } from "@/components/EmailVerificationBanner";
+import { SkillTags } from "@/components/SkillTags";
+import { TagInput } from "@/components/TagInput";
+import { SkillProficiency } from "@/components/SkillProficiency";
+import { EvidenceEditor } from "@/components/SkillEvidence";
+import { SkillImportDialog } from "@/components/SkillImportDialog";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useCategories, categoryTree } from "@/lib/categories";
+import { viewerTimeZone } from "@/lib/time";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { Skill, SessionWithDetails } from "@shared/schema";
+import type { SkillWithTags, SkillRevision, SessionWithDetails } from "@shared/schema";
+import { MAX_TAGS_PER_SKILL } from "@shared/tags";
+import { EXPERIENCE_LEVELS, EXPERIENCE_LEVEL_LABELS, MAX_YEARS_EXPERIENCE, describeProficiency } from "@shared/proficiency";
+import { formatDateTime, formatTime, dateKeyInTimeZone } from "@shared/time";
 import { 
   Plus, 
   BookOpen, 
@@ -31,7 +42,14 @@ import {
   Clock,
   CheckCircle,
   XCircle,
-  Search
+  Search,
+  Pencil,
+  History,
+  Archive,
+  ArchiveRestore,
+  ThumbsUp,
+  Download,
+  Upload
 } from "lucide-react";
 
 const skillSchema = z.object({
@@ -40,31 +58,36 @@ const skillSchema = z.object({
   category: z.string().min(1, "Please select a category"),
   type: z.enum(["offering", "seeking"]),
   experienceLevel: z.string().optional(),
+  yearsExperience: z
+    .string()
+    .regex(/^\d*$/, "Whole years only")
+    .refine((value) => value === "" || Number(value) <= MAX_YEARS_EXPERIENCE, `At most ${MAX_YEARS_EXPERIENCE} years`),
+  tags: z.array(z.string()).max(MAX_TAGS_PER_SKILL),
 });
 
 type SkillFormValues = z.infer<typeof skillSchema>;
 
-const CATEGORIES = [
-  "Programming",
-  "Mathematics",
-  "Science",
-  "Languages",
-  "Music",
-  "Art & Design",
-  "Writing",
-  "Sports & Fitness",
-  "Other",
-];
-
-const EXPERIENCE_LEVELS = [
-  { value: "beginner", label: "Beginner" },
-  { value: "intermediate", label: "Intermediate" },
-  { value: "advanced", label: "Advanced" },
-];
-
-function SkillCard({ skill, onDelete }: { skill: Skill; onDelete?: () => void }) {
+// The form keeps empty fields as ""; the API wants null
+function toRequestBody(values: SkillFormValues) {
+  return {
+    ...values,
+    experienceLevel: values.experienceLevel || null,
+    yearsExperience: values.yearsExperience === "" ? null : Number(values.yearsExperience),
+  };
+}
+
+interface SkillCardProps {
+  skill: SkillWithTags;
+  onEdit?: () => void;
+  onArchive?: () => void;
+  onRestore?: () => void;
+}
+
+function SkillCard({ skill, onEdit, onArchive, onRestore }: SkillCardProps) {
+  const { categoryName } = useCategories();
+
   return (
-    <Card className="hover-elevate">
+    <Card className={skill.archivedAt ? "opacity-75" : "hover-elevate"} data-testid={`card-skill-${skill.id}`}>
       <CardContent className="p-4">
         <div className="flex items-start justify-between gap-2 flex-wrap">
           <div className="flex-1 min-w-0">
@@ -76,35 +99,329 @@ function SkillCard({ skill, onDelete }: { skill: Skill; onDelete?: () => void })
             </div>
             <p className="text-sm text-muted-foreground line-clamp-2">{skill.description || "No description"}</p>
             <div className="flex items-center gap-2 mt-2 flex-wrap">
-              <Badge variant="outline" className="text-xs">{skill.category}</Badge>
-              {skill.experienceLevel && (
-                <Badge variant="outline" className="text-xs capitalize">{skill.experienceLevel}</Badge>
-              )}
+              <Badge variant="outline" className="text-xs">{categoryName(skill.category)}</Badge>
+              <SkillProficiency skill={skill} />
             </div>
+            <SkillTags tags={skill.tags} className="mt-2" />
+          </div>
+          <div className="flex items-center">
+            {onEdit && (
+              <Button variant="ghost" size="icon" onClick={onEdit} data-testid={`button-edit-skill-${skill.id}`}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+            )}
+            {onArchive && (
+              <Button variant="ghost" size="icon" onClick={onArchive} className="text-destructive" title="Archive" data-testid={`button-archive-skill-${skill.id}`}>
+                <Archive className="w-4 h-4" />
+              </Button>
+            )}
+            {onRestore && (
+              <Button variant="outline" size="sm" onClick={onRestore} className="gap-1" data-testid={`button-restore-skill-${skill.id}`}>
+                <ArchiveRestore className="w-4 h-4" />
+                Restore
+              </Button>
+            )}
           </div>
-          {onDelete && (
-            <Button variant="ghost" size="icon" onClick={onDelete} className="text-destructive">
-              <XCircle className="w-4 h-4" />
-            </Button>
-          )}
         </div>
       </CardContent>
     </Card>
   );
 }
 
+const EMPTY_SKILL: SkillFormValues = {
+  name: "",
+  description: "",
+  category: "",
+  type: "offering",
+  experienceLevel: "",
+  yearsExperience: "",
+  tags: [],
+};
+
+function toFormValues(skill: SkillWithTags): SkillFormValues {
+  return {
+    name: skill.name,
+    description: skill.description ?? "",
+    category: skill.category,
+    type: skill.type === "seeking" ? "seeking" : "offering",
+    experienceLevel: skill.experienceLevel ?? "",
+    yearsExperience: skill.yearsExperience === null ? "" : String(skill.yearsExperience),
+    tags: skill.tags.map((t) => t.name),
+  };
+}
+
+interface SkillFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this skill when set, otherwise adds a new one
+  skill: SkillWithTags | null;
+}
+
+function SkillFormDialog({ open, onOpenChange, skill }: SkillFormDialogProps) {
+  const { toast } = useToast();
+  const { categories, categoryName } = useCategories();
+
+  const form = useForm<SkillFormValues>({
+    resolver: zodResolver(skillSchema),
+    defaultValues: EMPTY_SKILL,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(skill ? toFormValues(skill) : EMPTY_SKILL);
+    }
+  }, [open, skill, form]);
+
+  const { data: revisions = [] } = useQuery<SkillRevision[]>({
+    queryKey: ["/api/skills", skill?.id, "revisions"],
+    enabled: open && !!skill,
+  });
+
+  const saveSkillMutation = useMutation({
+    mutationFn: async (data: SkillFormValues) => {
+      const response = skill
+        ? await apiRequest("PATCH", `/api/skills/${skill.id}`, toRequestBody(data))
+        : await apiRequest("POST", "/api/skills", toRequestBody(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/skills/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      if (skill) {
+        queryClient.invalidateQueries({ queryKey: ["/api/skills", skill.id, "revisions"] });
+      }
+      onOpenChange(false);
+      toast(skill
+        ? { title: "Skill updated", description: "Your changes have been saved." }
+        : { title: "Skill added", description: "Your skill has been added successfully." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, skill ? "Could not update skill. Please try again." : "Could not add skill. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{skill ? "Edit Skill" : "Add a New Skill"}</DialogTitle>
+          <DialogDescription>
+            {skill
+              ? "Sessions already requested keep showing the skill as it was when they were booked"
+              : "Add a skill you can teach or want to learn"}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveSkillMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>I am...</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-skill-type">
+                        <SelectValue placeholder="Select type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="offering">Offering to teach</SelectItem>
+                      <SelectItem value="seeking">Looking to learn</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Skill Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Python Programming" {...field} data-testid="input-skill-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-category">
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {categoryTree(categories).map(({ category, depth }) => (
+                        <SelectItem key={category.id} value={category.slug} className={depth > 0 ? "pl-12" : undefined}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="experienceLevel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Level (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-level">
+                          <SelectValue placeholder="Select level" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {EXPERIENCE_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>{EXPERIENCE_LEVEL_LABELS[level]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="yearsExperience"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Years of Experience</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={MAX_YEARS_EXPERIENCE} placeholder="e.g. 3" {...field} data-testid="input-skill-years" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea 
+                      placeholder="Describe your skill or what you want to learn..." 
+                      {...field} 
+                      data-testid="input-skill-description"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags (Optional)</FormLabel>
+                  <FormControl>
+                    <TagInput value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormDescription>Specific topics, like a language or instrument. Press Enter after each one.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={saveSkillMutation.isPending} data-testid="button-submit-skill">
+                {saveSkillMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {skill ? "Saving..." : "Adding..."}
+                  </>
+                ) : skill ? (
+                  "Save Changes"
+                ) : (
+                  "Add Skill"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+
+        {skill?.type === "offering" && (
+          <div className="border-t pt-4" data-testid="section-skill-evidence">
+            <h4 className="text-sm font-medium mb-1 flex items-center gap-2">
+              <Award className="w-4 h-4" />
+              Evidence
+            </h4>
+            <p className="text-xs text-muted-foreground mb-3">
+              Certificates, portfolios or finished courses that back up your level. They're shown on your profile.
+            </p>
+            <EvidenceEditor skillId={skill.id} />
+          </div>
+        )}
+
+        {revisions.length > 0 && (
+          <div className="border-t pt-4" data-testid="list-skill-revisions">
+            <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Edit history
+            </h4>
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+              {revisions.map((revision) => (
+                <li key={revision.id} className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{revision.name}</span>
+                  {" · "}{categoryName(revision.category)}
+                  {describeProficiency(revision) && <span>{" · "}{describeProficiency(revision)}</span>}
+                  {" — until "}{new Date(revision.replacedAt).toLocaleDateString()}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 interface SessionCardProps {
   session: SessionWithDetails;
   currentUserId: string;
+  timeZone: string; // the viewer's
   onUpdateStatus: (sessionId: string, status: string) => void;
   onReview: (session: SessionWithDetails) => void;
+  onEndorseSkill: (session: SessionWithDetails) => void;
   isPending: boolean;
 }
 
-function SessionCard({ session, currentUserId, onUpdateStatus, onReview, isPending }: SessionCardProps) {
+function SessionCard({ session, currentUserId, timeZone, onUpdateStatus, onReview, onEndorseSkill, isPending }: SessionCardProps) {
   const isRequester = session.requesterId === currentUserId;
   const isProvider = session.providerId === currentUserId;
   const otherUser = isRequester ? session.provider : session.requester;
+  // Only a session that has taken place can be marked complete
+  const canComplete = session.status === "accepted" && isProvider
+    && !!session.scheduledAt && new Date(session.scheduledAt) <= new Date();
+
+  // The other person's local time, when they are in a different zone
+  let otherLocalTime: string | null = null;
+  if (session.scheduledAt && otherUser.timeZone && otherUser.timeZone !== timeZone) {
+    const sameDay = dateKeyInTimeZone(session.scheduledAt, otherUser.timeZone) === dateKeyInTimeZone(session.scheduledAt, timeZone);
+    otherLocalTime = sameDay
+      ? formatTime(session.scheduledAt, otherUser.timeZone)
+      : formatDateTime(session.scheduledAt, otherUser.timeZone);
+  }
   
   const statusColors: Record<string, string> = {
     pending: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400",
@@ -117,11 +434,9 @@ function SessionCard({ session, currentUserId, onUpdateStatus, onReview, isPendi
     <Card>
       <CardContent className="p-4">
         <div className="flex items-start gap-4">
-          <Avatar>
-            <AvatarFallback className="bg-primary/10 text-primary">
-              {otherUser.fullName.charAt(0)}
-            </AvatarFallback>
-          </Avatar>
+          <Link href={`/users/${otherUser.username}`}>
+            <UserAvatar user={otherUser} />
+          </Link>
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 flex-wrap mb-1">
               <h4 className="font-semibold">{session.skill.name}</h4>
@@ -130,12 +445,20 @@ function SessionCard({ session, currentUserId, onUpdateStatus, onReview, isPendi
               </Badge>
             </div>
             <p className="text-sm text-muted-foreground">
-              {isRequester ? "With" : "From"}: {otherUser.fullName}
+              {isRequester ? "With" : "From"}:{" "}
+              <Link
+                href={`/users/${otherUser.username}`}
+                className="hover:underline hover:text-foreground"
+                data-testid={`link-profile-${session.id}`}
+              >
+                {otherUser.fullName}
+              </Link>
             </p>
             {session.scheduledAt && (
-              <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+              <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1 flex-wrap" data-testid={`text-scheduled-${session.id}`}>
                 <Clock className="w-3 h-3" />
-                {new Date(session.scheduledAt).toLocaleDateString()}
+                {formatDateTime(session.scheduledAt, timeZone)}
+                {otherLocalTime && <span>· {otherLocalTime} for {otherUser.fullName}</span>}
               </p>
             )}
             {session.message && (
@@ -166,7 +489,7 @@ function SessionCard({ session, currentUserId, onUpdateStatus, onReview, isPendi
                   </Button>
                 </>
               )}
-              {session.status === "accepted" && isProvider && (
+              {canComplete && (
                 <Button 
                   size="sm" 
                   onClick={() => onUpdateStatus(session.id, "completed")}
@@ -200,6 +523,17 @@ function SessionCard({ session, currentUserId, onUpdateStatus, onReview, isPendi
                   Leave Review
                 </Button>
               )}
+              {session.status === "completed" && isRequester && !session.skillEndorsed && session.skill.type === "offering" && (
+                <Button 
+                  size="sm" 
+                  variant="outline"
+                  onClick={() => onEndorseSkill(session)}
+                  data-testid={`button-endorse-skill-${session.id}`}
+                >
+                  <ThumbsUp className="w-3 h-3 mr-1" />
+                  Endorse Skill
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -212,24 +546,15 @@ export default function Dashboard() {
   const { user, logout, isLoading: authLoading } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [addSkillOpen, setAddSkillOpen] = useState(false);
+  const [skillDialogOpen, setSkillDialogOpen] = useState(false);
+  const [editingSkill, setEditingSkill] = useState<SkillWithTags | null>(null);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [sessionToReview, setSessionToReview] = useState<SessionWithDetails | null>(null);
   const [reviewRating, setReviewRating] = useState(5);
   const [reviewComment, setReviewComment] = useState("");
 
-  const form = useForm<SkillFormValues>({
-    resolver: zodResolver(skillSchema),
-    defaultValues: {
-      name: "",
-      description: "",
-      category: "",
-      type: "offering",
-      experienceLevel: "",
-    },
-  });
-
-  const { data: skills = [], isLoading: skillsLoading } = useQuery<Skill[]>({
+  const { data: skills = [], isLoading: skillsLoading } = useQuery<SkillWithTags[]>({
     queryKey: ["/api/skills/my"],
     enabled: !!user,
   });
@@ -239,33 +564,47 @@ export default function Dashboard() {
     enabled: !!user,
   });
 
-  const addSkillMutation = useMutation({
-    mutationFn: async (data: SkillFormValues) => {
-      const response = await apiRequest("POST", "/api/skills", data);
+  const archiveSkillMutation = useMutation({
+    mutationFn: async (skillId: string) => {
+      const response = await apiRequest("DELETE", `/api/skills/${skillId}`, {});
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/skills/my"] });
-      setAddSkillOpen(false);
-      form.reset();
-      toast({ title: "Skill added", description: "Your skill has been added successfully." });
+      toast({ title: "Skill archived", description: "It's hidden from search. Your past sessions are kept." });
     },
     onError: () => {
-      toast({ title: "Error", description: "Could not add skill. Please try again.", variant: "destructive" });
+      toast({ title: "Error", description: "Could not archive skill.", variant: "destructive" });
     },
   });
 
-  const deleteSkillMutation = useMutation({
+  const restoreSkillMutation = useMutation({
     mutationFn: async (skillId: string) => {
-      const response = await apiRequest("DELETE", `/api/skills/${skillId}`, {});
+      const response = await apiRequest("POST", `/api/skills/${skillId}/restore`, {});
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/skills/my"] });
-      toast({ title: "Skill removed", description: "Your skill has been removed." });
+      toast({ title: "Skill restored", description: "Learners can find it in search again." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Could not remove skill.", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not restore skill."), variant: "destructive" });
+    },
+  });
+
+  const endorseSkillMutation = useMutation({
+    mutationFn: async (skillId: string) => {
+      const response = await apiRequest("POST", `/api/skills/${skillId}/endorsements`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Skill endorsed", description: "Thanks! Endorsements from learners help others find good tutors." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not endorse the skill."), variant: "destructive" });
     },
   });
 
@@ -306,6 +645,11 @@ export default function Dashboard() {
     },
   });
 
+  const openSkillDialog = (skill: SkillWithTags | null) => {
+    setEditingSkill(skill);
+    setSkillDialogOpen(true);
+  };
+
   const handleReviewSession = (session: SessionWithDetails) => {
     setSessionToReview(session);
     setReviewDialogOpen(true);
@@ -337,8 +681,10 @@ export default function Dashboard() {
     return null;
   }
 
-  const offeringSkills = skills.filter((s) => s.type === "offering");
-  const seekingSkills = skills.filter((s) => s.type === "seeking");
+  const activeSkills = skills.filter((s) => !s.archivedAt);
+  const archivedSkills = skills.filter((s) => s.archivedAt);
+  const offeringSkills = activeSkills.filter((s) => s.type === "offering");
+  const seekingSkills = activeSkills.filter((s) => s.type === "seeking");
   const completedSessions = sessions.filter((s) => s.status === "completed").length;
 
   const badges = [];
@@ -348,7 +694,7 @@ export default function Dashboard() {
   if (offeringSkills.length >= 3) {
     badges.push({ name: "Skill Master", icon: Star, color: "text-purple-500" });
   }
-  if (skills.length >= 1) {
+  if (activeSkills.length >= 1) {
     badges.push({ name: "Getting Started", icon: CheckCircle, color: "text-green-500" });
   }
 
@@ -358,16 +704,18 @@ export default function Dashboard() {
       
       <main className="flex-1 py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <EmailVerificationBanner />
           <div className="grid lg:grid-cols-3 gap-8">
             <div className="lg:col-span-1">
               <Card>
                 <CardContent className="p-6">
                   <div className="text-center">
-                    <Avatar className="w-20 h-20 mx-auto mb-4">
-                      <AvatarFallback className="bg-primary text-primary-foreground text-2xl">
-                        {user.fullName.charAt(0)}
-                      </AvatarFallback>
-                    </Avatar>
+                    <UserAvatar
+                      user={user}
+                      size={256}
+                      className="w-20 h-20 mx-auto mb-4"
+                      fallbackClassName="bg-primary text-primary-foreground text-2xl"
+                    />
                     <h2 className="text-xl font-bold" data-testid="text-user-name">{user.fullName}</h2>
                     <p className="text-muted-foreground">@{user.username}</p>
                     {user.bio && <p className="mt-2 text-sm">{user.bio}</p>}
@@ -430,133 +778,24 @@ export default function Dashboard() {
                       <h3 className="text-lg font-semibold">Your Skills</h3>
                       <p className="text-sm text-muted-foreground">Manage skills you offer and seek</p>
                     </div>
-                    <Dialog open={addSkillOpen} onOpenChange={setAddSkillOpen}>
-                      <DialogTrigger asChild>
-                        <Button className="gap-2" data-testid="button-add-skill">
-                          <Plus className="w-4 h-4" />
-                          Add Skill
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {skills.length > 0 && (
+                        <Button variant="outline" className="gap-2" asChild>
+                          <a href="/api/skills/my/export?format=csv" download data-testid="button-export-skills">
+                            <Download className="w-4 h-4" />
+                            Export
+                          </a>
                         </Button>
-                      </DialogTrigger>
-                      <DialogContent>
-                        <DialogHeader>
-                          <DialogTitle>Add a New Skill</DialogTitle>
-                          <DialogDescription>
-                            Add a skill you can teach or want to learn
-                          </DialogDescription>
-                        </DialogHeader>
-                        <Form {...form}>
-                          <form onSubmit={form.handleSubmit((data) => addSkillMutation.mutate(data))} className="space-y-4">
-                            <FormField
-                              control={form.control}
-                              name="type"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>I am...</FormLabel>
-                                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                                    <FormControl>
-                                      <SelectTrigger data-testid="select-skill-type">
-                                        <SelectValue placeholder="Select type" />
-                                      </SelectTrigger>
-                                    </FormControl>
-                                    <SelectContent>
-                                      <SelectItem value="offering">Offering to teach</SelectItem>
-                                      <SelectItem value="seeking">Looking to learn</SelectItem>
-                                    </SelectContent>
-                                  </Select>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                            <FormField
-                              control={form.control}
-                              name="name"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Skill Name</FormLabel>
-                                  <FormControl>
-                                    <Input placeholder="e.g., Python Programming" {...field} data-testid="input-skill-name" />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                            <FormField
-                              control={form.control}
-                              name="category"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Category</FormLabel>
-                                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                                    <FormControl>
-                                      <SelectTrigger data-testid="select-category">
-                                        <SelectValue placeholder="Select category" />
-                                      </SelectTrigger>
-                                    </FormControl>
-                                    <SelectContent>
-                                      {CATEGORIES.map((cat) => (
-                                        <SelectItem key={cat} value={cat}>{cat}</SelectItem>
-                                      ))}
-                                    </SelectContent>
-                                  </Select>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                            <FormField
-                              control={form.control}
-                              name="experienceLevel"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Experience Level (Optional)</FormLabel>
-                                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                                    <FormControl>
-                                      <SelectTrigger data-testid="select-level">
-                                        <SelectValue placeholder="Select level" />
-                                      </SelectTrigger>
-                                    </FormControl>
-                                    <SelectContent>
-                                      {EXPERIENCE_LEVELS.map((level) => (
-                                        <SelectItem key={level.value} value={level.value}>{level.label}</SelectItem>
-                                      ))}
-                                    </SelectContent>
-                                  </Select>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                            <FormField
-                              control={form.control}
-                              name="description"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Description (Optional)</FormLabel>
-                                  <FormControl>
-                                    <Textarea 
-                                      placeholder="Describe your skill or what you want to learn..." 
-                                      {...field} 
-                                      data-testid="input-skill-description"
-                                    />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                            <DialogFooter>
-                              <Button type="submit" disabled={addSkillMutation.isPending} data-testid="button-submit-skill">
-                                {addSkillMutation.isPending ? (
-                                  <>
-                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                    Adding...
-                                  </>
-                                ) : (
-                                  "Add Skill"
-                                )}
-                              </Button>
-                            </DialogFooter>
-                          </form>
-                        </Form>
-                      </DialogContent>
-                    </Dialog>
+                      )}
+                      <Button variant="outline" className="gap-2" onClick={() => setImportDialogOpen(true)} data-testid="button-import-skills">
+                        <Upload className="w-4 h-4" />
+                        Import
+                      </Button>
+                      <Button className="gap-2" onClick={() => openSkillDialog(null)} data-testid="button-add-skill">
+                        <Plus className="w-4 h-4" />
+                        Add Skill
+                      </Button>
+                    </div>
                   </div>
 
                   {skillsLoading ? (
@@ -571,7 +810,7 @@ export default function Dashboard() {
                         <p className="text-sm text-muted-foreground mb-4">
                           Add skills you can teach or want to learn
                         </p>
-                        <Button onClick={() => setAddSkillOpen(true)} className="gap-2">
+                        <Button onClick={() => openSkillDialog(null)} className="gap-2">
                           <Plus className="w-4 h-4" />
                           Add Your First Skill
                         </Button>
@@ -590,7 +829,8 @@ export default function Dashboard() {
                               <SkillCard 
                                 key={skill.id} 
                                 skill={skill} 
-                                onDelete={() => deleteSkillMutation.mutate(skill.id)}
+                                onEdit={() => openSkillDialog(skill)}
+                                onArchive={() => archiveSkillMutation.mutate(skill.id)}
                               />
                             ))}
                           </div>
@@ -607,7 +847,28 @@ export default function Dashboard() {
                               <SkillCard 
                                 key={skill.id} 
                                 skill={skill}
-                                onDelete={() => deleteSkillMutation.mutate(skill.id)}
+                                onEdit={() => openSkillDialog(skill)}
+                                onArchive={() => archiveSkillMutation.mutate(skill.id)}
+                              />
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      {archivedSkills.length > 0 && (
+                        <div data-testid="section-archived-skills">
+                          <h4 className="font-medium mb-1 flex items-center gap-2">
+                            <Archive className="w-4 h-4 text-muted-foreground" />
+                            Archived
+                          </h4>
+                          <p className="text-sm text-muted-foreground mb-3">
+                            Hidden from search and your profile. Sessions and reviews for these skills are kept.
+                          </p>
+                          <div className="grid sm:grid-cols-2 gap-4">
+                            {archivedSkills.map((skill) => (
+                              <SkillCard
+                                key={skill.id}
+                                skill={skill}
+                                onRestore={() => restoreSkillMutation.mutate(skill.id)}
                               />
                             ))}
                           </div>
@@ -650,8 +911,10 @@ export default function Dashboard() {
                           key={session.id} 
                           session={session} 
                           currentUserId={user.id}
+                          timeZone={viewerTimeZone(user)}
                           onUpdateStatus={(sessionId, status) => updateSessionMutation.mutate({ sessionId, status })}
                           onReview={handleReviewSession}
+                          onEndorseSkill={(s) => endorseSkillMutation.mutate(s.skillId)}
                           isPending={updateSessionMutation.isPending}
                         />
                       ))}
@@ -731,6 +994,9 @@ export default function Dashboard() {
         </DialogContent>
       </Dialog>
 
+      <SkillFormDialog open={skillDialogOpen} onOpenChange={setSkillDialogOpen} skill={editingSkill} />
+      <SkillImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
+
       <Footer />
     </div>
   );
@@ -5,11 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
 import { useAuth } from "@/lib/auth";
+import { useCategories, categoryIcon, categoryColorClass } from "@/lib/categories";
 import { 
-  BookOpen, 
-  Code, 
-  Music, 
-  Palette, 
   Users, 
   Star, 
   ArrowRight,
@@ -18,12 +15,8 @@ import {
   Zap
 } from "lucide-react";
 
-const SKILL_CATEGORIES = [
-  { icon: Code, name: "Programming", color: "bg-blue-500/10 text-blue-600 dark:text-blue-400" },
-  { icon: BookOpen, name: "Tutoring", color: "bg-green-500/10 text-green-600 dark:text-green-400" },
-  { icon: Music, name: "Music", color: "bg-purple-500/10 text-purple-600 dark:text-purple-400" },
-  { icon: Palette, name: "Art & Design", color: "bg-pink-500/10 text-pink-600 dark:text-pink-400" },
-];
+// How many top-level categories the landing page shows, in the order admins set
+const FEATURED_CATEGORY_COUNT = 8;
 
 const FEATURES = [
   {
@@ -55,6 +48,8 @@ const FEATURES = [
 
 export default function Landing() {
   const { user, logout } = useAuth();
+  const { categories } = useCategories();
+  const featuredCategories = categories.filter((c) => !c.parentId).slice(0, FEATURED_CATEGORY_COUNT);
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -111,16 +106,19 @@ export default function Landing() {
               <p className="text-muted-foreground">Explore the most popular skills our students are sharing</p>
             </div>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              {SKILL_CATEGORIES.map((category) => (
-                <Card key={category.name} className="hover-elevate cursor-pointer">
-                  <CardContent className="p-6 flex flex-col items-center text-center">
-                    <div className={`w-12 h-12 rounded-lg flex items-center justify-center mb-4 ${category.color}`}>
-                      <category.icon className="w-6 h-6" />
-                    </div>
-                    <h3 className="font-semibold">{category.name}</h3>
-                  </CardContent>
-                </Card>
-              ))}
+              {featuredCategories.map((category) => {
+                const Icon = categoryIcon(category);
+                return (
+                  <Card key={category.id} className="hover-elevate cursor-pointer" data-testid={`card-category-${category.slug}`}>
+                    <CardContent className="p-6 flex flex-col items-center text-center">
+                      <div className={`w-12 h-12 rounded-lg flex items-center justify-center mb-4 ${categoryColorClass(category)}`}>
+                        <Icon className="w-6 h-6" />
+                      </div>
+                      <h3 className="font-semibold">{category.name}</h3>
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
           </div>
         </section>
@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { Link, useLocation } from "wouter";
+import { useState, type FormEvent } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -7,10 +8,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
 import { useAuth } from "@/lib/auth";
-import { Loader2, Eye, EyeOff } from "lucide-react";
+import { Loader2, Eye, EyeOff, ShieldCheck, AlertCircle } from "lucide-react";
 
 const loginSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
@@ -19,11 +21,35 @@ const loginSchema = z.object({
 
 type LoginFormValues = z.infer<typeof loginSchema>;
 
+interface SsoConfig {
+  enabled: boolean;
+  providerName: string | null;
+}
+
+// Reasons the single sign-on callback sends people back here
+const SSO_ERRORS: Record<string, string> = {
+  cancelled: "Sign-in was cancelled.",
+  email_unverified: "Your school account didn't provide a verified email address.",
+  link_unverified:
+    "An account with this email already exists but its email isn't verified. Sign in with your password and verify your email first.",
+  failed: "We couldn't sign you in with your school account. Please try again.",
+};
+
 export default function Login() {
-  const { login, isLoading: authLoading } = useAuth();
+  const { login, verifyTwoFactor, isLoading: authLoading } = useAuth();
   const [, setLocation] = useLocation();
+  const params = new URLSearchParams(useSearch());
+  const ssoError = params.get("sso_error");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  // Single sign-on lands here with ?two_factor=1 when the account has 2FA
+  const [twoFactorStep, setTwoFactorStep] = useState(params.get("two_factor") === "1");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const { data: sso } = useQuery<SsoConfig>({
+    queryKey: ["/api/auth/oidc"],
+  });
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -35,10 +61,24 @@ export default function Login() {
 
   const onSubmit = async (data: LoginFormValues) => {
     setIsSubmitting(true);
-    const success = await login(data.username, data.password);
+    const result = await login(data.username, data.password);
+    setIsSubmitting(false);
+    if (result === "success") {
+      setLocation("/dashboard");
+    } else if (result === "two_factor") {
+      setTwoFactorStep(true);
+    }
+  };
+
+  const onSubmitCode = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const success = await verifyTwoFactor(code);
     setIsSubmitting(false);
     if (success) {
       setLocation("/dashboard");
+    } else {
+      setCode("");
     }
   };
 
@@ -56,71 +96,158 @@ export default function Login() {
             <CardDescription>Sign in to your SkillSwap account</CardDescription>
           </CardHeader>
           <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="username"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Username</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="Enter your username" 
-                          {...field} 
-                          data-testid="input-username"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Password</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <Input 
-                            type={showPassword ? "text" : "password"}
-                            placeholder="Enter your password" 
-                            {...field} 
-                            data-testid="input-password"
-                          />
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="icon"
-                            className="absolute right-0 top-0 h-full px-3"
-                            onClick={() => setShowPassword(!showPassword)}
-                          >
-                            {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                          </Button>
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <Button 
-                  type="submit" 
-                  className="w-full" 
-                  disabled={isSubmitting || authLoading}
-                  data-testid="button-submit-login"
+            {ssoError && !twoFactorStep && (
+              <div className="mb-4 flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive" data-testid="text-sso-error">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{SSO_ERRORS[ssoError] || SSO_ERRORS.failed}</span>
+              </div>
+            )}
+            {twoFactorStep ? (
+              <form onSubmit={onSubmitCode} className="space-y-4" data-testid="form-two-factor">
+                <div className="text-center space-y-2">
+                  <ShieldCheck className="w-10 h-10 mx-auto text-primary" />
+                  <p className="text-sm text-muted-foreground">
+                    {useRecoveryCode
+                      ? "Enter one of the recovery codes you saved when you turned on two-factor authentication."
+                      : "Enter the 6-digit code from your authenticator app."}
+                  </p>
+                </div>
+                {useRecoveryCode ? (
+                  <Input
+                    placeholder="xxxxx-xxxxx"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    data-testid="input-recovery-code"
+                  />
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus data-testid="input-otp">
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isSubmitting || (!useRecoveryCode && code.length < 6) || !code}
+                  data-testid="button-submit-two-factor"
                 >
                   {isSubmitting ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Signing in...
+                      Verifying...
                     </>
                   ) : (
-                    "Sign in"
+                    "Verify"
                   )}
                 </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  data-testid="button-toggle-recovery-code"
+                >
+                  {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                </Button>
               </form>
-            </Form>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input 
+                            placeholder="Enter your username" 
+                            {...field} 
+                            data-testid="input-username"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex items-center justify-between">
+                          <FormLabel>Password</FormLabel>
+                          <Link href="/forgot-password" className="text-xs text-primary hover:underline" data-testid="link-forgot-password">
+                            Forgot password?
+                          </Link>
+                        </div>
+                        <FormControl>
+                          <div className="relative">
+                            <Input 
+                              type={showPassword ? "text" : "password"}
+                              placeholder="Enter your password" 
+                              {...field} 
+                              data-testid="input-password"
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="absolute right-0 top-0 h-full px-3"
+                              onClick={() => setShowPassword(!showPassword)}
+                            >
+                              {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                            </Button>
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button 
+                    type="submit" 
+                    className="w-full" 
+                    disabled={isSubmitting || authLoading}
+                    data-testid="button-submit-login"
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Signing in...
+                      </>
+                    ) : (
+                      "Sign in"
+                    )}
+                  </Button>
+                  {sso?.enabled && (
+                    <>
+                      <div className="relative py-2">
+                        <div className="absolute inset-0 flex items-center">
+                          <span className="w-full border-t" />
+                        </div>
+                        <div className="relative flex justify-center text-xs uppercase">
+                          <span className="bg-card px-2 text-muted-foreground">or</span>
+                        </div>
+                      </div>
+                      <a href="/api/auth/oidc/login" className="block">
+                        <Button type="button" variant="outline" className="w-full" data-testid="button-sso-login">
+                          Continue with {sso.providerName}
+                        </Button>
+                      </a>
+                    </>
+                  )}
+                </form>
+              </Form>
+            )}
             <div className="mt-6 text-center text-sm">
               <span className="text-muted-foreground">Don't have an account? </span>
               <Link href="/register" className="text-primary hover:underline" data-testid="link-register">
@@ -0,0 +1,231 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { UserAvatar } from "@/components/UserAvatar";
+import { UserBadges } from "@/components/UserBadges";
+import { SkillTags } from "@/components/SkillTags";
+import { SkillProficiency } from "@/components/SkillProficiency";
+import { EvidenceLinks } from "@/components/SkillEvidence";
+import { useAuth } from "@/lib/auth";
+import { useCategories } from "@/lib/categories";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import type { PublicProfile, SkillWithTags, SkillWithEvidence } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { Loader2, Star, Calendar, UserX, BookOpen, GraduationCap } from "lucide-react";
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((value) => (
+        <Star
+          key={value}
+          className={`w-4 h-4 ${value <= Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Lets moderators vouch for (or withdraw verification of) an offered skill
+function VerifyButton({ skill }: { skill: SkillWithEvidence }) {
+  const { toast } = useToast();
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(skill.verifiedAt ? "DELETE" : "POST", `/api/skills/${skill.id}/verify`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Could not update verification."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 px-2 text-xs"
+      onClick={() => verifyMutation.mutate()}
+      disabled={verifyMutation.isPending}
+      data-testid={`button-verify-skill-${skill.id}`}
+    >
+      {skill.verifiedAt ? "Remove verification" : "Verify"}
+    </Button>
+  );
+}
+
+interface SkillListProps {
+  skills: (SkillWithTags | SkillWithEvidence)[];
+  emptyText: string;
+  canModerate?: boolean;
+}
+
+function SkillList({ skills, emptyText, canModerate = false }: SkillListProps) {
+  const { categoryName } = useCategories();
+
+  if (skills.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyText}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {skills.map((skill) => (
+        <div key={skill.id} className="border rounded-md p-3" data-testid={`profile-skill-${skill.id}`}>
+          <div className="flex items-center gap-2 flex-wrap">
+            <h4 className="font-medium">{skill.name}</h4>
+            <Badge variant="outline" className="text-xs">{categoryName(skill.category)}</Badge>
+            <SkillProficiency skill={skill} />
+            {canModerate && "evidence" in skill && <VerifyButton skill={skill} />}
+          </div>
+          {skill.description && <p className="text-sm text-muted-foreground mt-1">{skill.description}</p>}
+          <SkillTags tags={skill.tags} className="mt-2" />
+          {"evidence" in skill && <EvidenceLinks evidence={skill.evidence} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function Profile() {
+  const { username } = useParams<{ username: string }>();
+  const { user, logout } = useAuth();
+
+  const { data: profile, isLoading, error } = useQuery<PublicProfile>({
+    queryKey: ["/api/users", encodeURIComponent(username)],
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header user={user} onLogout={logout} />
+
+      <main className="flex-1 py-8">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          {isLoading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : error || !profile ? (
+            <Card>
+              <CardContent className="py-16 text-center">
+                <UserX className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                <h2 className="text-xl font-semibold mb-2">User not found</h2>
+                <p className="text-muted-foreground mb-6">There's no SkillSwap member called @{username}.</p>
+                <Link href="/search">
+                  <Button>Browse skills</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid lg:grid-cols-3 gap-8">
+              <div className="lg:col-span-1">
+                <Card>
+                  <CardContent className="p-6 text-center">
+                    <UserAvatar
+                      user={profile}
+                      size={256}
+                      className="w-20 h-20 mx-auto mb-4"
+                      fallbackClassName="bg-primary text-primary-foreground text-2xl"
+                    />
+                    <h1 className="text-xl font-bold" data-testid="text-profile-name">{profile.fullName}</h1>
+                    <p className="text-muted-foreground">@{profile.username}</p>
+                    {profile.bio && <p className="mt-2 text-sm">{profile.bio}</p>}
+                    <p className="mt-3 text-xs text-muted-foreground flex items-center justify-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      Member since {new Date(profile.createdAt).toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+                    </p>
+
+                    <UserBadges badges={profile.stats.badges} className="mt-4 justify-center" />
+
+                    <div className="mt-6 grid grid-cols-3 gap-4">
+                      <div>
+                        <p className="text-2xl font-bold text-primary">{profile.stats.offeringSkills}</p>
+                        <p className="text-xs text-muted-foreground">Offering</p>
+                      </div>
+                      <div>
+                        <p className="text-2xl font-bold">{profile.stats.completedSessions}</p>
+                        <p className="text-xs text-muted-foreground">Sessions</p>
+                      </div>
+                      <div>
+                        <p className="text-2xl font-bold">
+                          {profile.stats.reviewCount > 0 ? profile.stats.averageRating.toFixed(1) : "–"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">Rating</p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <div className="lg:col-span-2 space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <BookOpen className="w-5 h-5 text-primary" />
+                      Can teach
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <SkillList
+                      skills={profile.offeredSkills}
+                      emptyText="Not offering any skills yet."
+                      canModerate={hasPermission(user?.role, "skills.moderate")}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <GraduationCap className="w-5 h-5 text-secondary" />
+                      Wants to learn
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <SkillList skills={profile.soughtSkills} emptyText="Not looking for any skills yet." />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Recent reviews</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {profile.recentReviews.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No reviews yet.</p>
+                    ) : (
+                      <div className="space-y-4">
+                        {profile.recentReviews.map((review) => (
+                          <div key={review.id} className="border-b last:border-0 pb-4 last:pb-0" data-testid={`review-${review.id}`}>
+                            <div className="flex items-center justify-between gap-2 flex-wrap">
+                              <Link href={`/users/${review.reviewer.username}`} className="font-medium hover:underline">
+                                {review.reviewer.fullName}
+                              </Link>
+                              <Stars rating={review.rating} />
+                            </div>
+                            {review.comment && <p className="text-sm mt-1">{review.comment}</p>}
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {new Date(review.createdAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
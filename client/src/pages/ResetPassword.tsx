@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPassword() {
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormValues) => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", "/api/auth/reset-password", { token, password: data.password });
+      toast({ title: "Password updated", description: "You can now sign in with your new password." });
+      setLocation("/login");
+    } catch {
+      toast({ title: "Reset failed", description: "This reset link is invalid or has expired.", variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      
+      <main className="flex-1 flex items-center justify-center py-12 px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="w-12 h-12 rounded-lg bg-primary flex items-center justify-center mx-auto mb-4">
+              <span className="text-primary-foreground font-bold text-2xl">S</span>
+            </div>
+            <CardTitle className="text-2xl" data-testid="text-reset-password-title">Choose a new password</CardTitle>
+            <CardDescription>Enter a new password for your SkillSwap account</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!token ? (
+              <p className="text-sm text-center text-muted-foreground" data-testid="text-reset-missing-token">
+                This reset link is incomplete. Please request a new one.
+              </p>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>New password</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="At least 8 characters" {...field} data-testid="input-password" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm password</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="Repeat your new password" {...field} data-testid="input-confirm-password" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button 
+                    type="submit" 
+                    className="w-full" 
+                    disabled={isSubmitting}
+                    data-testid="button-submit-reset-password"
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      "Reset password"
+                    )}
+                  </Button>
+                </form>
+              </Form>
+            )}
+            <div className="mt-6 text-center text-sm">
+              <Link href="/forgot-password" className="text-primary hover:underline" data-testid="link-forgot-password">
+                Request a new link
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,77 +1,172 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
+import { UserAvatar } from "@/components/UserAvatar";
+import { EmailVerificationBanner } from "@/components/EmailVerificationBanner";
+import { SkillTags } from "@/components/SkillTags";
+import { SkillProficiency } from "@/components/SkillProficiency";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { SkillWithUser } from "@shared/schema";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { viewerTimeZone, localDateKey } from "@/lib/time";
+import { useCategories, categoryTree } from "@/lib/categories";
+import { dateKeyInTimeZone } from "@shared/time";
+import { SKILL_SORTS, type SkillWithUser, type SkillSearchPage, type SkillSort, type HighlightedText, type UserAvailability, type AvailabilitySlot } from "@shared/schema";
 import { 
   Search as SearchIcon, 
   Loader2, 
   Star,
   MessageSquare,
   Filter,
+  CalendarClock,
+  ArrowUpDown,
   X
 } from "lucide-react";
 
-const CATEGORIES = [
-  "All Categories",
-  "Programming",
-  "Mathematics",
-  "Science",
-  "Languages",
-  "Music",
-  "Art & Design",
-  "Writing",
-  "Sports & Fitness",
-  "Other",
-];
+// Select value for "no category filter"; never a real slug since slugs have no spaces
+const ALL_CATEGORIES = "all categories";
+
+const SORT_LABELS: Record<SkillSort, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  rating: "Top rated",
+  popularity: "Most popular",
+};
+
+// Text from a search result with the words that matched the search marked
+function Highlighted({ parts }: { parts: HighlightedText }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-primary/15 text-foreground rounded-sm">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
 
 export default function Search() {
   const { user, logout } = useAuth();
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
-  const [category, setCategory] = useState("All Categories");
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [sort, setSort] = useState<SkillSort>("relevance");
+  const { categories, categoryName } = useCategories();
+  // Tag filters live in the URL so tag links elsewhere can open a filtered search
+  const [, setLocation] = useLocation();
+  const tagFilters = new URLSearchParams(useSearch()).getAll("tag");
   const [requestDialogOpen, setRequestDialogOpen] = useState(false);
   const [selectedSkill, setSelectedSkill] = useState<SkillWithUser | null>(null);
   const [message, setMessage] = useState("");
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  const [selectedSlot, setSelectedSlot] = useState<AvailabilitySlot | null>(null);
 
-  const { data: skills = [], isLoading } = useQuery<SkillWithUser[]>({
-    queryKey: ["/api/search", searchQuery, category],
-    queryFn: async () => {
-      const params = new URLSearchParams();
+  // Only skills on offer from other people can be booked, so only those are listed
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery<SkillSearchPage>({
+    queryKey: ["/api/search", searchQuery, category, sort, user?.id, ...tagFilters],
+    initialPageParam: null,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ type: "offering", sort });
       if (searchQuery) params.append("q", searchQuery);
-      if (category && category !== "All Categories") params.append("category", category);
+      if (category !== ALL_CATEGORIES) params.append("category", category);
+      if (user) params.append("excludeUserId", user.id);
+      for (const tag of tagFilters) params.append("tag", tag);
+      if (typeof pageParam === "string") params.append("cursor", pageParam);
       const response = await fetch(`/api/search?${params.toString()}`);
       if (!response.ok) throw new Error("Failed to search");
       return response.json();
     },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const skills = data?.pages.flatMap((page) => page.skills) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  // Load the next page as the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const availabilityKey = ["/api/users", selectedSkill?.userId, "availability"];
+  const { data: availability, isLoading: availabilityLoading } = useQuery<UserAvailability>({
+    queryKey: availabilityKey,
+    enabled: requestDialogOpen && !!selectedSkill,
+    // Slots are taken by other learners, so refresh whenever the dialog opens
+    staleTime: 0,
+  });
+
+  const setTagFilters = (tags: string[]) => {
+    const params = new URLSearchParams();
+    for (const tag of tags) params.append("tag", tag);
+    setLocation(tags.length > 0 ? `/search?${params.toString()}` : "/search");
+  };
+  // Every result carries the filtered tags, so their names can come from there
+  const tagName = (slug: string) => skills.flatMap((s) => s.tags).find((t) => t.slug === slug)?.name ?? slug;
+  const hasFilters = !!searchQuery || category !== ALL_CATEGORIES || tagFilters.length > 0;
+
+  const timeZone = viewerTimeZone(user);
+  const tutorTimeZone = availability?.timeZone || selectedSkill?.user.timeZone;
+
+  // Open slots grouped by the day they fall on in the viewer's zone
+  const slotsByDate = useMemo(() => {
+    const grouped = new Map<string, AvailabilitySlot[]>();
+    for (const slot of availability?.slots ?? []) {
+      const key = dateKeyInTimeZone(slot.start, timeZone);
+      grouped.set(key, [...(grouped.get(key) ?? []), slot]);
+    }
+    return grouped;
+  }, [availability, timeZone]);
+  const hasSlots = slotsByDate.size > 0;
+  const daySlots = selectedDate ? slotsByDate.get(localDateKey(selectedDate)) ?? [] : [];
+
+  const closeRequestDialog = () => {
+    setRequestDialogOpen(false);
+    setSelectedDate(undefined);
+    setSelectedSlot(null);
+  };
 
   const requestSessionMutation = useMutation({
-    mutationFn: async ({ skillId, providerId, message }: { skillId: string; providerId: string; message: string }) => {
-      const response = await apiRequest("POST", "/api/sessions/request", { skillId, providerId, message });
+    mutationFn: async ({ skillId, providerId, message, scheduledAt }: { skillId: string; providerId: string; message: string; scheduledAt?: string }) => {
+      const response = await apiRequest("POST", "/api/sessions/request", { skillId, providerId, message, scheduledAt });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sessions/my"] });
-      setRequestDialogOpen(false);
+      closeRequestDialog();
       setMessage("");
       setSelectedSkill(null);
       toast({ title: "Session requested!", description: "The tutor will review your request." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Could not request session. Please try again.", variant: "destructive" });
+    onError: (error) => {
+      // Most likely someone else just booked the slot
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+      setSelectedSlot(null);
+      toast({ title: "Error", description: errorMessage(error, "Could not request session. Please try again."), variant: "destructive" });
     },
   });
 
@@ -80,12 +175,14 @@ export default function Search() {
       toast({ title: "Please log in", description: "You need to be logged in to request sessions.", variant: "destructive" });
       return;
     }
+    if (!user.emailVerifiedAt) {
+      toast({ title: "Verify your email", description: "Confirm your email address before requesting sessions.", variant: "destructive" });
+      return;
+    }
     setSelectedSkill(skill);
     setRequestDialogOpen(true);
   };
 
-  const filteredSkills = skills.filter((skill) => skill.type === "offering" && skill.userId !== user?.id);
-
   return (
     <div className="min-h-screen flex flex-col">
       <Header user={user} onLogout={logout} />
@@ -97,6 +194,8 @@ export default function Search() {
             <p className="text-muted-foreground">Search for tutors and skills you want to learn</p>
           </div>
 
+          <EmailVerificationBanner />
+
           <div className="bg-card border rounded-lg p-4 mb-8">
             <div className="flex flex-col sm:flex-row gap-4">
               <div className="relative flex-1">
@@ -117,18 +216,33 @@ export default function Search() {
                     <SelectValue placeholder="Category" />
                   </SelectTrigger>
                   <SelectContent>
-                    {CATEGORIES.map((cat) => (
-                      <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                    <SelectItem value={ALL_CATEGORIES}>All Categories</SelectItem>
+                    {categoryTree(categories).map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.slug} className={depth > 0 ? "pl-12" : undefined}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={sort} onValueChange={(value) => setSort(value as SkillSort)}>
+                  <SelectTrigger className="w-[160px]" data-testid="select-sort">
+                    <ArrowUpDown className="w-4 h-4 mr-2" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SKILL_SORTS.map((value) => (
+                      <SelectItem key={value} value={value}>{SORT_LABELS[value]}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
-                {(searchQuery || category !== "All Categories") && (
+                {hasFilters && (
                   <Button
                     variant="ghost"
                     size="icon"
                     onClick={() => {
                       setSearchQuery("");
-                      setCategory("All Categories");
+                      setCategory(ALL_CATEGORIES);
+                      setTagFilters([]);
                     }}
                     data-testid="button-clear-filters"
                   >
@@ -137,73 +251,109 @@ export default function Search() {
                 )}
               </div>
             </div>
+            {tagFilters.length > 0 && (
+              <div className="flex items-center gap-2 flex-wrap mt-4" data-testid="list-tag-filters">
+                <span className="text-sm text-muted-foreground">Tagged</span>
+                {tagFilters.map((slug) => (
+                  <Badge key={slug} variant="secondary" className="gap-1">
+                    {tagName(slug)}
+                    <button
+                      type="button"
+                      onClick={() => setTagFilters(tagFilters.filter((t) => t !== slug))}
+                      aria-label={`Remove ${tagName(slug)} filter`}
+                      data-testid={`button-remove-tag-filter-${slug}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
           </div>
 
           {isLoading ? (
             <div className="flex items-center justify-center py-16">
               <Loader2 className="w-8 h-8 animate-spin text-primary" />
             </div>
-          ) : filteredSkills.length === 0 ? (
+          ) : skills.length === 0 ? (
             <Card>
               <CardContent className="py-16 text-center">
                 <SearchIcon className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
                 <h3 className="font-semibold text-lg mb-2">No skills found</h3>
                 <p className="text-muted-foreground">
-                  {searchQuery || category !== "All Categories"
+                  {hasFilters
                     ? "Try adjusting your search or filters"
                     : "Be the first to add a skill!"}
                 </p>
               </CardContent>
             </Card>
           ) : (
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredSkills.map((skill) => (
-                <Card key={skill.id} className="hover-elevate" data-testid={`card-skill-${skill.id}`}>
-                  <CardContent className="p-6">
-                    <div className="flex items-start gap-4">
-                      <Avatar className="w-12 h-12">
-                        <AvatarFallback className="bg-primary/10 text-primary text-lg">
-                          {skill.user.fullName.charAt(0)}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1 min-w-0">
-                        <h3 className="font-semibold truncate">{skill.name}</h3>
-                        <p className="text-sm text-muted-foreground">by {skill.user.fullName}</p>
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground" data-testid="text-result-count">
+                {total} {total === 1 ? "skill" : "skills"} found
+              </p>
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {skills.map((skill) => (
+                  <Card key={skill.id} className="hover-elevate" data-testid={`card-skill-${skill.id}`}>
+                    <CardContent className="p-6">
+                      <div className="flex items-start gap-4">
+                        <Link href={`/users/${skill.user.username}`}>
+                          <UserAvatar user={skill.user} className="w-12 h-12" fallbackClassName="bg-primary/10 text-primary text-lg" />
+                        </Link>
+                        <div className="flex-1 min-w-0">
+                          <h3 className="font-semibold truncate">
+                            {skill.highlight ? <Highlighted parts={skill.highlight.name} /> : skill.name}
+                          </h3>
+                          <p className="text-sm text-muted-foreground">
+                            by{" "}
+                            <Link
+                              href={`/users/${skill.user.username}`}
+                              className="hover:underline hover:text-foreground"
+                              data-testid={`link-profile-${skill.id}`}
+                            >
+                              {skill.user.fullName}
+                            </Link>
+                          </p>
+                        </div>
                       </div>
-                    </div>
                     
-                    <p className="mt-4 text-sm text-muted-foreground line-clamp-2">
-                      {skill.description || "No description provided"}
-                    </p>
+                      <p className="mt-4 text-sm text-muted-foreground line-clamp-2">
+                        {skill.highlight?.description ? (
+                          <Highlighted parts={skill.highlight.description} />
+                        ) : (
+                          skill.description || "No description provided"
+                        )}
+                      </p>
                     
-                    <div className="flex items-center gap-2 mt-4 flex-wrap">
-                      <Badge variant="outline">{skill.category}</Badge>
-                      {skill.experienceLevel && (
-                        <Badge variant="secondary" className="capitalize text-xs">
-                          {skill.experienceLevel}
-                        </Badge>
-                      )}
-                    </div>
+                      <div className="flex items-center gap-2 mt-4 flex-wrap">
+                        <Badge variant="outline">{categoryName(skill.category)}</Badge>
+                        <SkillProficiency skill={skill} />
+                      </div>
+                      <SkillTags tags={skill.tags} className="mt-2" />
 
-                    <Button
-                      className="w-full mt-4 gap-2"
-                      onClick={() => handleRequestSession(skill)}
-                      disabled={!user}
-                      data-testid={`button-request-${skill.id}`}
-                    >
-                      <MessageSquare className="w-4 h-4" />
-                      Request Session
-                    </Button>
-                  </CardContent>
-                </Card>
-              ))}
+                      <Button
+                        className="w-full mt-4 gap-2"
+                        onClick={() => handleRequestSession(skill)}
+                        disabled={!user}
+                        data-testid={`button-request-${skill.id}`}
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                        Request Session
+                      </Button>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+              <div ref={loadMoreRef} className="flex justify-center py-4" data-testid="search-load-more">
+                {isFetchingNextPage && <Loader2 className="w-6 h-6 animate-spin text-primary" />}
+              </div>
             </div>
           )}
         </div>
       </main>
 
-      <Dialog open={requestDialogOpen} onOpenChange={setRequestDialogOpen}>
-        <DialogContent>
+      <Dialog open={requestDialogOpen} onOpenChange={(open) => (open ? setRequestDialogOpen(true) : closeRequestDialog())}>
+        <DialogContent className="sm:max-w-2xl">
           <DialogHeader>
             <DialogTitle>Request a Session</DialogTitle>
             <DialogDescription>
@@ -215,11 +365,7 @@ export default function Search() {
             <div className="space-y-4">
               <div className="bg-muted/50 rounded-lg p-4">
                 <div className="flex items-center gap-3">
-                  <Avatar>
-                    <AvatarFallback className="bg-primary/10 text-primary">
-                      {selectedSkill.user.fullName.charAt(0)}
-                    </AvatarFallback>
-                  </Avatar>
+                  <UserAvatar user={selectedSkill.user} />
                   <div>
                     <p className="font-semibold">{selectedSkill.name}</p>
                     <p className="text-sm text-muted-foreground">with {selectedSkill.user.fullName}</p>
@@ -227,6 +373,62 @@ export default function Search() {
                 </div>
               </div>
               
+              <div>
+                <Label className="flex items-center gap-2">
+                  <CalendarClock className="w-4 h-4" />
+                  Pick a time
+                </Label>
+                {availabilityLoading ? (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                  </div>
+                ) : !hasSlots ? (
+                  <p className="text-sm text-muted-foreground mt-2" data-testid="text-no-availability">
+                    {selectedSkill.user.fullName} has no open times right now. Suggest a few in your message.
+                  </p>
+                ) : (
+                  <div className="mt-2 flex flex-col sm:flex-row gap-4">
+                    <Calendar
+                      mode="single"
+                      selected={selectedDate}
+                      onSelect={(date) => {
+                        setSelectedDate(date);
+                        setSelectedSlot(null);
+                      }}
+                      disabled={(date) => !slotsByDate.has(localDateKey(date))}
+                      // Calendar days are local dates, so build them from the keys rather than instants
+                      defaultMonth={new Date(`${Array.from(slotsByDate.keys())[0]}T00:00:00`)}
+                      className="rounded-md border self-start"
+                      data-testid="calendar-availability"
+                    />
+                    <div className="flex-1 space-y-2">
+                      {selectedDate ? (
+                        <div className="grid grid-cols-2 gap-2">
+                          {daySlots.map((slot) => (
+                            <Button
+                              key={slot.start}
+                              type="button"
+                              variant={selectedSlot?.start === slot.start ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => setSelectedSlot(slot)}
+                              data-testid={`button-slot-${slot.start}`}
+                            >
+                              {new Date(slot.start).toLocaleTimeString([], { timeZone, hour: "numeric", minute: "2-digit" })}
+                            </Button>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Choose a highlighted day to see open times.</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Times are shown in your time zone ({timeZone}).
+                        {tutorTimeZone && tutorTimeZone !== timeZone && ` ${selectedSkill.user.fullName} is in ${tutorTimeZone}.`}
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+
               <div>
                 <Label htmlFor="message">Your Message</Label>
                 <Textarea
@@ -243,7 +445,7 @@ export default function Search() {
           )}
           
           <DialogFooter>
-            <Button variant="outline" onClick={() => setRequestDialogOpen(false)}>
+            <Button variant="outline" onClick={closeRequestDialog}>
               Cancel
             </Button>
             <Button
@@ -253,10 +455,11 @@ export default function Search() {
                     skillId: selectedSkill.id,
                     providerId: selectedSkill.userId,
                     message,
+                    scheduledAt: selectedSlot?.start,
                   });
                 }
               }}
-              disabled={requestSessionMutation.isPending}
+              disabled={requestSessionMutation.isPending || (hasSlots && !selectedSlot)}
               data-testid="button-confirm-request"
             >
               {requestSessionMutation.isPending ? (
@@ -0,0 +1,90 @@
+import { useLocation } from "wouter";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { TwoFactorSettings } from "@/components/settings/TwoFactorSettings";
+import { ActiveSessions } from "@/components/settings/ActiveSessions";
+import { AvatarSettings, ProfileSettings, EmailSettings, PasswordSettings, DeleteAccount } from "@/components/settings/AccountSettings";
+import { DataExportSettings } from "@/components/settings/DataExportSettings";
+import { ApiTokenSettings } from "@/components/settings/ApiTokenSettings";
+import { AvailabilitySettings } from "@/components/settings/AvailabilitySettings";
+import { useAuth } from "@/lib/auth";
+import { Loader2, Shield, User, KeyRound, CalendarClock } from "lucide-react";
+
+export default function Settings() {
+  const { user, logout, isLoading: authLoading } = useAuth();
+  const [, setLocation] = useLocation();
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    setLocation("/login");
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header user={user} onLogout={logout} />
+      
+      <main className="flex-1 py-8">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2" data-testid="text-settings-title">Settings</h1>
+            <p className="text-muted-foreground">Manage your account and security</p>
+          </div>
+
+          <Tabs defaultValue="account" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="account" className="gap-2" data-testid="tab-account">
+                <User className="w-4 h-4" />
+                Account
+              </TabsTrigger>
+              <TabsTrigger value="availability" className="gap-2" data-testid="tab-availability">
+                <CalendarClock className="w-4 h-4" />
+                Availability
+              </TabsTrigger>
+              <TabsTrigger value="security" className="gap-2" data-testid="tab-security">
+                <Shield className="w-4 h-4" />
+                Security
+              </TabsTrigger>
+              <TabsTrigger value="tokens" className="gap-2" data-testid="tab-tokens">
+                <KeyRound className="w-4 h-4" />
+                API tokens
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="account" className="space-y-6">
+              <AvatarSettings />
+              <ProfileSettings />
+              <EmailSettings />
+              <DataExportSettings />
+              <DeleteAccount />
+            </TabsContent>
+
+            <TabsContent value="availability" className="space-y-6">
+              <AvailabilitySettings />
+            </TabsContent>
+
+            <TabsContent value="security" className="space-y-6">
+              <PasswordSettings />
+              <TwoFactorSettings />
+              <ActiveSessions />
+            </TabsContent>
+
+            <TabsContent value="tokens" className="space-y-6">
+              <ApiTokenSettings />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { useAuth } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, CheckCircle, XCircle } from "lucide-react";
+
+type VerifyStatus = "verifying" | "verified" | "failed";
+
+export default function VerifyEmail() {
+  const { user, logout, refetchUser } = useAuth();
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const [status, setStatus] = useState<VerifyStatus>(token ? "verifying" : "failed");
+
+  useEffect(() => {
+    if (!token) return;
+    apiRequest("POST", "/api/auth/verify-email", { token })
+      .then(async () => {
+        setStatus("verified");
+        await refetchUser();
+      })
+      .catch(() => setStatus("failed"));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header user={user} onLogout={logout} />
+      
+      <main className="flex-1 flex items-center justify-center py-12 px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl" data-testid="text-verify-email-title">Email verification</CardTitle>
+            <CardDescription>Confirming your SkillSwap email address</CardDescription>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            {status === "verifying" && (
+              <Loader2 className="w-10 h-10 mx-auto animate-spin text-primary" />
+            )}
+            {status === "verified" && (
+              <>
+                <CheckCircle className="w-12 h-12 mx-auto text-green-500" />
+                <p data-testid="text-verify-email-success">Your email is verified. You can now request sessions and leave reviews.</p>
+                <Link href={user ? "/dashboard" : "/login"}>
+                  <Button className="w-full">{user ? "Go to dashboard" : "Sign in"}</Button>
+                </Link>
+              </>
+            )}
+            {status === "failed" && (
+              <>
+                <XCircle className="w-12 h-12 mx-auto text-destructive" />
+                <p className="text-muted-foreground" data-testid="text-verify-email-failed">
+                  This verification link is invalid or has expired. Sign in and request a new one from your dashboard.
+                </p>
+                <Link href={user ? "/dashboard" : "/login"}>
+                  <Button variant="outline" className="w-full">{user ? "Go to dashboard" : "Sign in"}</Button>
+                </Link>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import type { Request, Response, NextFunction } from "express";
+import type { ApiToken, ApiTokenInfo } from "@shared/schema";
+import type { ApiTokenScope } from "@shared/permissions";
+import { storage } from "./storage";
+import { generateToken, hashToken } from "./tokens";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with a personal access token
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+// Recognisable prefix so leaked tokens are easy to spot in logs and scanners
+const TOKEN_PREFIX = "ssk_";
+// Don't write last-used timestamps more often than this
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function generateApiToken(): { token: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${generateToken()}`;
+  return { token, prefix: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+export function toApiTokenInfo(token: ApiToken): ApiTokenInfo {
+  const { userId: _userId, tokenHash: _tokenHash, ...info } = token;
+  return info;
+}
+
+function unauthorized(res: Response, message: string) {
+  res.setHeader("WWW-Authenticate", 'Bearer realm="skillswap"');
+  return res.status(401).json({ message });
+}
+
+// Authenticates `Authorization: Bearer` requests. Mounted before the session
+// middleware: a token request gets a request-scoped stand-in for the session,
+// so no cookie session is created or saved for it.
+export async function apiTokenAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("authorization");
+  if (!header?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  try {
+    const token = await storage.getApiTokenByHash(hashToken(header.slice("Bearer ".length).trim()));
+    if (!token) {
+      return unauthorized(res, "Invalid API token");
+    }
+    if (token.expiresAt && token.expiresAt.getTime() <= Date.now()) {
+      return unauthorized(res, "API token has expired");
+    }
+    // Login, logout and similar endpoints manage cookie sessions
+    if (req.path.startsWith("/auth/") && req.path !== "/auth/me") {
+      return res.status(403).json({ message: "API tokens can't be used for this endpoint", code: "TOKEN_NOT_ALLOWED" });
+    }
+
+    if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await storage.touchApiToken(token.id);
+    }
+
+    req.apiToken = token;
+    req.session = { userId: token.userId } as unknown as Request["session"];
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Declares the scope a token needs for a route. Session requests pass through.
+export function requireScope(scope: ApiTokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiToken) {
+      return next();
+    }
+    if (!req.apiToken.scopes.includes(scope)) {
+      return res.status(403).json({ message: `API token is missing the ${scope} scope`, code: "INSUFFICIENT_SCOPE" });
+    }
+    res.locals.apiTokenScope = scope;
+    next();
+  };
+}
+
+// Routes without a requireScope in front of them are for browser sessions only
+export function isUnscopedTokenRequest(req: Request, res: Response) {
+  return !!req.apiToken && !res.locals.apiTokenScope;
+}
@@ -0,0 +1,143 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { dateKeyInTimeZone, formatTime } from "@shared/time";
+
+// availability.ts loads the storage layer, which wants a database URL. These
+// tests only use its pure functions, so nothing ever connects to it.
+process.env.DATABASE_URL ??= "postgres://localhost/unused";
+const { zonedTimeToUtc, buildSlots } = await import("./availability");
+
+const NEW_YORK = "America/New_York";
+const LONDON = "Europe/London";
+
+function iso(date: Date | null) {
+  return date?.toISOString() ?? null;
+}
+
+function slotStarts(options: Parameters<typeof buildSlots>[0]) {
+  return buildSlots(options).map((slot) => slot.start);
+}
+
+function day(date: string) {
+  return { from: new Date(`${date}T00:00:00Z`), to: new Date(Date.parse(`${date}T00:00:00Z`) + 2 * 24 * 60 * 60 * 1000) };
+}
+
+describe("zonedTimeToUtc", () => {
+  it("converts ordinary wall-clock times with the offset in effect that day", () => {
+    assert.equal(iso(zonedTimeToUtc("2026-01-15", 9 * 60, NEW_YORK)), "2026-01-15T14:00:00.000Z");
+    assert.equal(iso(zonedTimeToUtc("2026-07-15", 9 * 60, NEW_YORK)), "2026-07-15T13:00:00.000Z");
+  });
+
+  it("returns null for the hour skipped when clocks spring forward", () => {
+    // New York jumps from 02:00 EST to 03:00 EDT on 8 March 2026
+    assert.equal(zonedTimeToUtc("2026-03-08", 2 * 60 + 30, NEW_YORK), null);
+    assert.equal(iso(zonedTimeToUtc("2026-03-08", 60 + 30, NEW_YORK)), "2026-03-08T06:30:00.000Z");
+    assert.equal(iso(zonedTimeToUtc("2026-03-08", 3 * 60, NEW_YORK)), "2026-03-08T07:00:00.000Z");
+  });
+
+  it("resolves the repeated hour when clocks fall back to its first occurrence", () => {
+    // 01:30 happens at 05:30Z (EDT) and again at 06:30Z (EST) on 1 November 2026
+    assert.equal(iso(zonedTimeToUtc("2026-11-01", 60 + 30, NEW_YORK)), "2026-11-01T05:30:00.000Z");
+    assert.equal(iso(zonedTimeToUtc("2026-11-01", 2 * 60, NEW_YORK)), "2026-11-01T07:00:00.000Z");
+  });
+
+  it("handles zones that don't change their clocks", () => {
+    assert.equal(iso(zonedTimeToUtc("2026-03-08", 2 * 60 + 30, "Asia/Tokyo")), "2026-03-07T17:30:00.000Z");
+  });
+});
+
+describe("buildSlots", () => {
+  it("leaves out the slot that falls in the skipped hour", () => {
+    const starts = slotStarts({
+      windows: [{ weekday: 0, startMinute: 0, endMinute: 5 * 60, timeZone: NEW_YORK }],
+      exceptionDates: new Set(),
+      busy: [],
+      ...day("2026-03-08"),
+    });
+    // 00:00 and 01:00 EST, then 03:00 and 04:00 EDT
+    assert.deepEqual(starts, [
+      "2026-03-08T05:00:00.000Z",
+      "2026-03-08T06:00:00.000Z",
+      "2026-03-08T07:00:00.000Z",
+      "2026-03-08T08:00:00.000Z",
+    ]);
+  });
+
+  it("offers the repeated hour once when clocks fall back", () => {
+    const starts = slotStarts({
+      windows: [{ weekday: 0, startMinute: 0, endMinute: 4 * 60, timeZone: NEW_YORK }],
+      exceptionDates: new Set(),
+      busy: [],
+      ...day("2026-11-01"),
+    });
+    // 00:00 and 01:00 EDT, then 02:00 and 03:00 EST; the second 01:00 isn't a slot
+    assert.deepEqual(starts, [
+      "2026-11-01T04:00:00.000Z",
+      "2026-11-01T05:00:00.000Z",
+      "2026-11-01T07:00:00.000Z",
+      "2026-11-01T08:00:00.000Z",
+    ]);
+  });
+
+  it("keeps a weekly window at the same local time across a change", () => {
+    const starts = slotStarts({
+      windows: [{ weekday: 1, startMinute: 16 * 60, endMinute: 17 * 60, timeZone: NEW_YORK }],
+      exceptionDates: new Set(),
+      busy: [],
+      from: new Date("2026-03-01T00:00:00Z"),
+      to: new Date("2026-03-15T00:00:00Z"),
+    });
+    assert.deepEqual(starts, ["2026-03-02T21:00:00.000Z", "2026-03-09T20:00:00.000Z"]);
+  });
+
+  it("reads days off in the tutor's zone", () => {
+    // Late on the 9th in New York is already the 10th in UTC
+    const starts = slotStarts({
+      windows: [
+        { weekday: 1, startMinute: 22 * 60, endMinute: 23 * 60, timeZone: NEW_YORK },
+        { weekday: 2, startMinute: 22 * 60, endMinute: 23 * 60, timeZone: NEW_YORK },
+      ],
+      exceptionDates: new Set(["2026-03-09"]),
+      busy: [],
+      from: new Date("2026-03-09T00:00:00Z"),
+      to: new Date("2026-03-12T00:00:00Z"),
+    });
+    assert.deepEqual(starts, ["2026-03-11T02:00:00.000Z"]);
+  });
+
+  it("blocks every slot a booked session overlaps, even off the grid", () => {
+    const starts = slotStarts({
+      windows: [{ weekday: 1, startMinute: 9 * 60, endMinute: 12 * 60, timeZone: LONDON }],
+      exceptionDates: new Set(),
+      busy: [new Date("2026-01-12T09:30:00Z")],
+      ...day("2026-01-12"),
+    });
+    assert.deepEqual(starts, ["2026-01-12T11:00:00.000Z"]);
+  });
+
+  it("shows a tutor's slots at the right time for a viewer in another zone", () => {
+    // A London tutor's Monday 09:00 between the US and UK changes, then after both
+    const starts = slotStarts({
+      windows: [{ weekday: 1, startMinute: 9 * 60, endMinute: 10 * 60, timeZone: LONDON }],
+      exceptionDates: new Set(),
+      busy: [],
+      from: new Date("2026-03-01T00:00:00Z"),
+      to: new Date("2026-04-01T00:00:00Z"),
+    });
+    assert.deepEqual(starts, [
+      "2026-03-02T09:00:00.000Z",
+      "2026-03-09T09:00:00.000Z",
+      "2026-03-16T09:00:00.000Z",
+      "2026-03-23T09:00:00.000Z",
+      "2026-03-30T08:00:00.000Z",
+    ]);
+
+    const inLosAngeles = starts.map((start) => formatTime(start, "America/Los_Angeles", "en-US"));
+    assert.deepEqual(inLosAngeles, ["1:00 AM PST", "2:00 AM PDT", "2:00 AM PDT", "2:00 AM PDT", "1:00 AM PDT"]);
+
+    // It's already Monday evening in Auckland, and still Sunday in Honolulu
+    assert.equal(dateKeyInTimeZone(starts[0], "Pacific/Auckland"), "2026-03-02");
+    assert.equal(formatTime(starts[0], "Pacific/Auckland", "en-US"), "10:00 PM GMT+13");
+    assert.equal(dateKeyInTimeZone(starts[0], "Pacific/Honolulu"), "2026-03-01");
+  });
+});
@@ -0,0 +1,177 @@
+import { SESSION_SLOT_MINUTES, type AvailabilitySlot, type AvailabilityWindow } from "@shared/schema";
+import { storage } from "./storage";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Learners can book at most this far ahead, and no sooner than the notice period
+export const BOOKING_HORIZON_DAYS = 60;
+export const BOOKING_NOTICE_MS = 12 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD
+  minute: number; // minutes since local midnight
+}
+
+// The wall-clock date and time in `timeZone` at an instant
+function toLocalTime(instant: number, timeZone: string): LocalTime & { offsetMinutes: number } {
+  const parts: Record<string, string> = {};
+  for (const part of zoneFormatter(timeZone).formatToParts(new Date(instant))) {
+    parts[part.type] = part.value;
+  }
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+  const hour = Number(parts.hour);
+  const minute = Number(parts.minute);
+  const second = Number(parts.second);
+
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const wholeSeconds = Math.floor(instant / 1000) * 1000;
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minute: hour * 60 + minute,
+    offsetMinutes: Math.round((wallClockAsUtc - wholeSeconds) / MINUTE_MS),
+  };
+}
+
+// The instant a wall-clock time occurs in `timeZone`, or null when the clocks
+// skip over it (spring forward). A time that happens twice (fall back) resolves
+// to its first occurrence.
+export function zonedTimeToUtc(date: string, minute: number, timeZone: string): Date | null {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, 0, minute);
+
+  // Try the offsets in effect a day either side; at most two differ around a transition
+  const offsets = new Set([
+    toLocalTime(wallClockAsUtc - DAY_MS, timeZone).offsetMinutes,
+    toLocalTime(wallClockAsUtc + DAY_MS, timeZone).offsetMinutes,
+  ]);
+  const candidates = Array.from(offsets)
+    .map((offset) => wallClockAsUtc - offset * MINUTE_MS)
+    .filter((instant) => {
+      const local = toLocalTime(instant, timeZone);
+      return local.date === date && local.minute === minute;
+    })
+    .sort((a, b) => a - b);
+
+  return candidates.length > 0 ? new Date(candidates[0]) : null;
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+interface SlotOptions {
+  windows: Pick<AvailabilityWindow, "weekday" | "startMinute" | "endMinute" | "timeZone">[];
+  exceptionDates: Set<string>;
+  busy: Date[]; // start times of sessions already holding a slot
+  from: Date;
+  to: Date;
+}
+
+// Cuts weekly windows into slots starting within [from, to), skipping
+// exception dates and anything that overlaps a session already booked.
+export function buildSlots({ windows, exceptionDates, busy, from, to }: SlotOptions): AvailabilitySlot[] {
+  if (windows.length === 0 || from >= to) {
+    return [];
+  }
+
+  const slotMs = SESSION_SLOT_MINUTES * MINUTE_MS;
+  const busyTimes = busy.map((start) => start.getTime());
+  const overlapsBusy = (start: number) => busyTimes.some((b) => b < start + slotMs && start < b + slotMs);
+
+  const slots = new Map<number, AvailabilitySlot>();
+  const zones = new Set(windows.map((w) => w.timeZone));
+  for (const timeZone of Array.from(zones)) {
+    const zoneWindows = windows.filter((w) => w.timeZone === timeZone);
+    const lastDate = toLocalTime(to.getTime(), timeZone).date;
+
+    for (let date = toLocalTime(from.getTime(), timeZone).date; date <= lastDate; date = addDays(date, 1)) {
+      if (exceptionDates.has(date)) continue;
+      const weekday = weekdayOf(date);
+
+      for (const window of zoneWindows) {
+        if (window.weekday !== weekday) continue;
+
+        for (let minute = window.startMinute; minute + SESSION_SLOT_MINUTES <= window.endMinute; minute += SESSION_SLOT_MINUTES) {
+          const start = zonedTimeToUtc(date, minute, timeZone);
+          if (!start) continue;
+          const startMs = start.getTime();
+          if (startMs < from.getTime() || startMs >= to.getTime() || overlapsBusy(startMs)) continue;
+          slots.set(startMs, { start: start.toISOString(), end: new Date(startMs + slotMs).toISOString() });
+        }
+      }
+    }
+  }
+
+  return Array.from(slots.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, slot]) => slot);
+}
+
+// Clamps a requested range to what learners are allowed to book right now
+export function bookingRange(from?: Date, to?: Date, now = new Date()) {
+  const earliest = new Date(now.getTime() + BOOKING_NOTICE_MS);
+  const latest = new Date(now.getTime() + BOOKING_HORIZON_DAYS * DAY_MS);
+  return {
+    from: from && from > earliest ? from : earliest,
+    to: to && to < latest ? to : latest,
+  };
+}
+
+// Free slots for a tutor within [from, to)
+export async function getBookableSlots(userId: string, from: Date, to: Date): Promise<AvailabilitySlot[]> {
+  const slotMs = SESSION_SLOT_MINUTES * MINUTE_MS;
+  const [windows, exceptions, scheduled] = await Promise.all([
+    storage.getAvailabilityWindows(userId),
+    storage.getAvailabilityExceptions(userId),
+    // Sessions starting up to one slot either side of the range can overlap
+    // slots in it; the tutor's own sessions needn't start on the slot grid
+    storage.getScheduledSessions(userId, new Date(from.getTime() - slotMs), new Date(to.getTime() + slotMs)),
+  ]);
+
+  return buildSlots({
+    windows,
+    exceptionDates: new Set(exceptions.map((e) => e.date)),
+    busy: scheduled.map((s) => s.scheduledAt!),
+    from,
+    to,
+  });
+}
+
+// True when `start` is one of the tutor's free slots right now
+export async function isBookableSlot(userId: string, start: Date): Promise<boolean> {
+  const range = bookingRange();
+  if (start < range.from || start >= range.to) {
+    return false;
+  }
+  const slots = await getBookableSlots(userId, start, new Date(start.getTime() + MINUTE_MS));
+  return slots.some((slot) => new Date(slot.start).getTime() === start.getTime());
+}
@@ -0,0 +1,64 @@
+import sharp, { type Metadata } from "sharp";
+import { AVATAR_SIZES } from "@shared/schema";
+import { fileStorage } from "./fileStorage";
+import { generateToken } from "./tokens";
+
+export const MAX_AVATAR_BYTES = 5 * 1024 * 1024; // 5 MB
+export const AVATAR_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+// What sharp must detect in the file itself; the upload's MIME type is only a hint
+const ACCEPTED_FORMATS = new Set(["jpeg", "png", "webp", "gif"]);
+// Refuse decompression bombs before resizing
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidImageError";
+  }
+}
+
+// Resizes an uploaded image to every avatar size and stores them as
+// "<name>-<size>.webp". Returns the URL of the largest size, which is what
+// users.avatar_url records; see avatarVariantUrl for the others.
+export async function saveAvatar(userId: string, upload: Buffer): Promise<string> {
+  let metadata: Metadata;
+  try {
+    metadata = await sharp(upload, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    throw new InvalidImageError("The file is not a readable image");
+  }
+  if (!metadata.format || !ACCEPTED_FORMATS.has(metadata.format)) {
+    throw new InvalidImageError("Avatars must be JPEG, PNG, WebP or GIF images");
+  }
+
+  let resized: Buffer[];
+  try {
+    resized = await Promise.all(
+      AVATAR_SIZES.map((size) =>
+        sharp(upload, { limitInputPixels: MAX_INPUT_PIXELS })
+          .rotate() // honour EXIF orientation; metadata is stripped on output
+          .resize(size, size, { fit: "cover" })
+          .webp({ quality: 82 })
+          .toBuffer(),
+      ),
+    );
+  } catch {
+    // e.g. a truncated file whose header parsed fine
+    throw new InvalidImageError("The file is not a readable image");
+  }
+
+  // A user only ever has one avatar stored
+  await deleteAvatar(userId);
+
+  const base = `avatars/${userId}/${generateToken(9)}`;
+  const urls = await Promise.all(
+    AVATAR_SIZES.map((size, i) => fileStorage.put(`${base}-${size}.webp`, resized[i], "image/webp")),
+  );
+
+  return urls[urls.length - 1];
+}
+
+export async function deleteAvatar(userId: string): Promise<void> {
+  await fileStorage.deletePrefix(`avatars/${userId}`);
+}
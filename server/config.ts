@@ -0,0 +1,94 @@
+// Runtime configuration read from the environment. Importing this module
+// validates it, so a misconfigured production deploy fails at boot instead of
+// running with insecure defaults.
+
+const DEV_SESSION_SECRET = "skillswap-dev-secret-not-for-production";
+const MIN_SESSION_SECRET_LENGTH = 32;
+
+// Single sign-on through an OpenID Connect provider, e.g. the school district's
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  // Omitted for public clients, which rely on PKCE alone
+  clientSecret: string | undefined;
+  scopes: string;
+  // Shown on the login button
+  providerName: string;
+}
+
+export interface AppConfig {
+  isProduction: boolean;
+  port: number;
+  sessionSecret: string;
+  // Passed to app.set("trust proxy"); false when the app is reached directly
+  trustProxy: boolean | number | string;
+  // Send cookies only over HTTPS. Behind a TLS-terminating proxy this needs trustProxy.
+  secureCookies: boolean;
+  // Base URL used in emailed links; falls back to the request's host
+  appUrl: string | undefined;
+  // SMTP server for outgoing mail; without one, mail is only logged (development)
+  smtpUrl: string | undefined;
+  mailFrom: string;
+  oidc: OidcConfig | undefined;
+}
+
+function parseTrustProxy(value: string | undefined, isProduction: boolean): boolean | number | string {
+  if (value === undefined || value === "") {
+    // Hosted deployments sit behind a single TLS-terminating proxy
+    return isProduction ? 1 : false;
+  }
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return value; // e.g. "loopback" or a comma-separated list of subnets
+}
+
+function loadOidcConfig(env: NodeJS.ProcessEnv): OidcConfig | undefined {
+  if (!env.OIDC_ISSUER && !env.OIDC_CLIENT_ID) {
+    return undefined;
+  }
+  if (!env.OIDC_ISSUER || !env.OIDC_CLIENT_ID) {
+    throw new Error("OIDC_ISSUER and OIDC_CLIENT_ID must both be set to enable single sign-on.");
+  }
+  return {
+    issuer: env.OIDC_ISSUER,
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET || undefined,
+    scopes: env.OIDC_SCOPES || "openid email profile",
+    providerName: env.OIDC_PROVIDER_NAME || "School account",
+  };
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const isProduction = env.NODE_ENV === "production";
+
+  let sessionSecret = env.SESSION_SECRET;
+  if (!sessionSecret) {
+    if (isProduction) {
+      throw new Error("SESSION_SECRET must be set in production.");
+    }
+    sessionSecret = DEV_SESSION_SECRET;
+  }
+  if (isProduction && (sessionSecret.length < MIN_SESSION_SECRET_LENGTH || sessionSecret === DEV_SESSION_SECRET)) {
+    throw new Error(`SESSION_SECRET must be a random string of at least ${MIN_SESSION_SECRET_LENGTH} characters in production.`);
+  }
+
+  // Reset and verification links would otherwise end up in the server logs
+  if (isProduction && !env.SMTP_URL) {
+    throw new Error("SMTP_URL must be set in production.");
+  }
+
+  return {
+    isProduction,
+    port: parseInt(env.PORT || "5000", 10),
+    sessionSecret,
+    trustProxy: parseTrustProxy(env.TRUST_PROXY, isProduction),
+    secureCookies: env.COOKIE_SECURE ? env.COOKIE_SECURE === "true" : isProduction,
+    appUrl: env.APP_URL || undefined,
+    smtpUrl: env.SMTP_URL || undefined,
+    mailFrom: env.MAIL_FROM || "SkillSwap <no-reply@skillswap.local>",
+    oidc: loadOidcConfig(env),
+  };
+}
+
+export const config = loadConfig();
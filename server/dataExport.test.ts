@@ -0,0 +1,94 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import bcrypt from "bcrypt";
+import type { DataExportInfo } from "@shared/schema";
+import { skipWithoutDatabase, setupTestDatabase, startTestServer, TestAgent } from "./testing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("personal data exports", { skip: skipWithoutDatabase }, () => {
+  const PASSWORD = "correct horse battery";
+  let close: () => Promise<void>;
+  let endPool: () => Promise<void>;
+  let baseUrl: string;
+  let storage: Awaited<ReturnType<typeof setupTestDatabase>>["storage"];
+  let userId: string;
+  let agent: TestAgent;
+  let fileDir: string;
+
+  before(async () => {
+    const setup = await setupTestDatabase();
+    storage = setup.storage;
+    endPool = () => setup.pool.end();
+    fileDir = await mkdtemp(path.join(tmpdir(), "skillswap-exports-"));
+
+    const user = await storage.createUser({
+      username: "ada",
+      password: await bcrypt.hash(PASSWORD, 4),
+      email: "ada@example.com",
+      fullName: "Ada",
+    });
+    userId = user.id;
+
+    ({ baseUrl, close } = await startTestServer());
+    agent = new TestAgent(baseUrl);
+    await agent.login("ada", PASSWORD);
+  });
+
+  after(async () => {
+    await close?.();
+    await endPool?.();
+    await rm(fileDir, { recursive: true, force: true });
+  });
+
+  const latest = async () => {
+    const response = await agent.get("/api/users/me/export");
+    assert.equal(response.status, 200);
+    return response.body as DataExportInfo;
+  };
+
+  it("has nothing to report before an export is requested", async () => {
+    assert.equal((await agent.get("/api/users/me/export")).status, 404);
+  });
+
+  it("sends a small account's zip straight away", async () => {
+    const response = await agent.post("/api/users/me/export");
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("Content-Type"), "application/zip");
+  });
+
+  it("reports the latest background export, with a link once it's ready", async () => {
+    const older = await storage.createDataExport(userId, new Date(Date.now() + DAY_MS));
+    await storage.updateDataExport(older.id, { createdAt: new Date(Date.now() - 60 * 1000) });
+    const dataExport = await storage.createDataExport(userId, new Date(Date.now() + DAY_MS));
+
+    const pending = await latest();
+    assert.equal(pending.id, dataExport.id);
+    assert.equal(pending.status, "pending");
+    assert.equal(pending.downloadUrl, null);
+
+    const filePath = path.join(fileDir, `${dataExport.id}.zip`);
+    await writeFile(filePath, "zip");
+    await storage.updateDataExport(dataExport.id, { status: "ready", filePath, completedAt: new Date() });
+    const ready = await latest();
+    assert.equal(ready.status, "ready");
+    assert.equal(ready.downloadUrl, `/api/users/me/exports/${dataExport.id}/download`);
+
+    const download = await agent.get(ready.downloadUrl!);
+    assert.equal(download.status, 200);
+    assert.equal(download.body, "zip");
+  });
+
+  it("marks a background export that never finished as failed", async () => {
+    const stuck = await storage.createDataExport(userId, new Date(Date.now() + DAY_MS));
+    assert.equal((await latest()).status, "pending");
+
+    // Jobs are given half an hour
+    await storage.updateDataExport(stuck.id, { createdAt: new Date(Date.now() - 31 * 60 * 1000) });
+    const listed = (await agent.get("/api/users/me/exports")).body as DataExportInfo[];
+    assert.equal(listed.find((e) => e.id === stuck.id)?.status, "failed");
+  });
+});
@@ -0,0 +1,183 @@
+import JSZip from "jszip";
+import { mkdir, writeFile, rm } from "fs/promises";
+import path from "path";
+import { toSafeUser, type DataExport, type DataExportInfo } from "@shared/schema";
+import { storage } from "./storage";
+
+// Accounts with more rows than this get their export built in the background
+export const SYNC_EXPORT_ROW_LIMIT = 500;
+export const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Background exports run in the server process, so one still pending after
+// this long was cut off by a restart and will never finish
+export const EXPORT_JOB_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
+const EXPORT_DIR = process.env.DATA_EXPORT_DIR || path.resolve("data", "exports");
+
+export async function collectUserData(userId: string) {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  const [skills, sessions, reviewsGiven, reviewsReceived, availabilityWindows, availabilityExceptions] = await Promise.all([
+    storage.getSkillsByUserId(userId, { includeArchived: true }),
+    storage.getSessionsByUserId(userId),
+    storage.getReviewsByReviewerId(userId),
+    storage.getReviewsByUserId(userId),
+    storage.getAvailabilityWindows(userId),
+    storage.getAvailabilityExceptions(userId),
+  ]);
+
+  const tagsBySkill = await storage.getTagsForSkills(skills.map((s) => s.id));
+
+  // Session requests are the only messages users exchange today
+  const messages = sessions
+    .filter((s) => s.message)
+    .map((s) => ({
+      sessionId: s.id,
+      direction: s.requesterId === userId ? "sent" : "received",
+      from: s.requester.username,
+      to: s.provider.username,
+      skill: s.skill.name,
+      message: s.message,
+      createdAt: s.createdAt,
+    }));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: toSafeUser(user),
+    skills: skills.map((s) => ({ ...s, tags: (tagsBySkill.get(s.id) ?? []).map((t) => t.name) })),
+    sessions: sessions.map((s) => ({
+      id: s.id,
+      role: s.requesterId === userId ? "learner" : "tutor",
+      skill: s.skill.name,
+      requester: s.requester.username,
+      provider: s.provider.username,
+      status: s.status,
+      scheduledAt: s.scheduledAt,
+      createdAt: s.createdAt,
+    })),
+    reviewsGiven,
+    reviewsReceived,
+    messages,
+    availabilityWindows,
+    availabilityExceptions,
+  };
+}
+
+export type UserData = Awaited<ReturnType<typeof collectUserData>>;
+
+export function countRows(data: UserData) {
+  return data.skills.length + data.sessions.length + data.reviewsGiven.length +
+    data.reviewsReceived.length + data.messages.length +
+    data.availabilityWindows.length + data.availabilityExceptions.length;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : Array.isArray(value) ? value.join("; ") : String(value);
+  // Stop spreadsheet apps from treating user text as a formula
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T extends object>(rows: T[]): string {
+  if (rows.length === 0) return "";
+  const columns = Object.keys(rows[0]) as (keyof T)[];
+  const lines = [
+    columns.map((c) => csvCell(c)).join(","),
+    ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export async function buildExportZip(data: UserData): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("skillswap-data.json", JSON.stringify(data, null, 2));
+  zip.file("profile.csv", toCsv([data.profile]));
+  zip.file("skills.csv", toCsv(data.skills));
+  zip.file("sessions.csv", toCsv(data.sessions));
+  zip.file("reviews_given.csv", toCsv(data.reviewsGiven));
+  zip.file("reviews_received.csv", toCsv(data.reviewsReceived));
+  zip.file("messages.csv", toCsv(data.messages));
+  zip.file("availability_windows.csv", toCsv(data.availabilityWindows));
+  zip.file("availability_exceptions.csv", toCsv(data.availabilityExceptions));
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+export function exportFileName(date = new Date()) {
+  return `skillswap-export-${date.toISOString().slice(0, 10)}.zip`;
+}
+
+// Builds the archive for a queued export and records the outcome on the row
+export async function runExportJob(dataExport: DataExport): Promise<void> {
+  try {
+    const zip = await buildExportZip(await collectUserData(dataExport.userId));
+    await mkdir(EXPORT_DIR, { recursive: true });
+    const filePath = path.join(EXPORT_DIR, `${dataExport.id}.zip`);
+    await writeFile(filePath, zip);
+    await storage.updateDataExport(dataExport.id, { status: "ready", filePath, completedAt: new Date() });
+  } catch (error) {
+    console.error("Data export failed:", error);
+    await storage.updateDataExport(dataExport.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    });
+  }
+}
+
+export async function queueExport(userId: string): Promise<DataExport> {
+  const dataExport = await storage.createDataExport(userId, new Date(Date.now() + EXPORT_TTL_MS));
+  setImmediate(() => {
+    runExportJob(dataExport);
+  });
+  return dataExport;
+}
+
+// Deletes a user's expired exports and their files, and marks exports whose
+// job stopped without finishing as failed so a new one can be requested
+export async function pruneExpiredExports(userId: string): Promise<DataExport[]> {
+  const exports = await storage.getDataExportsByUserId(userId);
+  const live: DataExport[] = [];
+  for (const dataExport of exports) {
+    if (dataExport.expiresAt.getTime() <= Date.now()) {
+      if (dataExport.filePath) {
+        await rm(dataExport.filePath, { force: true });
+      }
+      await storage.deleteDataExport(dataExport.id);
+    } else if (dataExport.status === "pending" && Date.now() - dataExport.createdAt.getTime() > EXPORT_JOB_TIMEOUT_MS) {
+      const failed = await storage.updateDataExport(dataExport.id, {
+        status: "failed",
+        error: "The export did not finish",
+        completedAt: new Date(),
+      });
+      live.push(failed ?? dataExport);
+    } else {
+      live.push(dataExport);
+    }
+  }
+  return live;
+}
+
+export async function deleteUserExports(userId: string): Promise<void> {
+  const exports = await storage.getDataExportsByUserId(userId);
+  for (const dataExport of exports) {
+    if (dataExport.filePath) {
+      await rm(dataExport.filePath, { force: true });
+    }
+  }
+}
+
+export function toExportInfo(dataExport: DataExport): DataExportInfo {
+  return {
+    id: dataExport.id,
+    status: dataExport.status,
+    createdAt: dataExport.createdAt,
+    completedAt: dataExport.completedAt,
+    expiresAt: dataExport.expiresAt,
+    downloadUrl: dataExport.status === "ready" ? `/api/users/me/exports/${dataExport.id}/download` : null,
+  };
+}
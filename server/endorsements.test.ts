@@ -0,0 +1,150 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import bcrypt from "bcrypt";
+import { ENDORSEMENTS_TO_VERIFY } from "@shared/proficiency";
+import type { Session, Skill, User } from "@shared/schema";
+import { skipWithoutDatabase, setupTestDatabase, startTestServer, TestAgent } from "./testing";
+
+const PASSWORD = "correct horse battery";
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("completing sessions and endorsing skills", { skip: skipWithoutDatabase }, () => {
+  let close: () => Promise<void>;
+  let endPool: () => Promise<void>;
+  let baseUrl: string;
+  let storage: Awaited<ReturnType<typeof setupTestDatabase>>["storage"];
+  let tutor: User;
+  let skill: Skill;
+  let tutorAgent: TestAgent;
+  let learnerCount = 0;
+
+  before(async () => {
+    const setup = await setupTestDatabase();
+    storage = setup.storage;
+    endPool = () => setup.pool.end();
+
+    tutor = await createUser("tutor");
+    skill = await storage.createSkill({ userId: tutor.id, name: "Calculus", category: "mathematics", type: "offering" });
+
+    ({ baseUrl, close } = await startTestServer());
+    tutorAgent = new TestAgent(baseUrl);
+    await tutorAgent.login("tutor", PASSWORD);
+  });
+
+  after(async () => {
+    await close?.();
+    await endPool?.();
+  });
+
+  async function createUser(username: string) {
+    const user = await storage.createUser({
+      username,
+      password: await bcrypt.hash(PASSWORD, 4),
+      email: `${username}@example.com`,
+      fullName: username,
+    });
+    return (await storage.updateUser(user.id, { emailVerifiedAt: new Date() }))!;
+  }
+
+  // A new learner, signed in, with a session on the skill scheduled this many
+  // hours from now (negative for the past). Each test uses different hours,
+  // since the tutor can't have two sessions at once.
+  async function requestSession(hoursFromNow?: number, forSkill = skill) {
+    const learner = await createUser(`learner${++learnerCount}`);
+    const scheduledAt = hoursFromNow === undefined ? undefined : new Date(Date.now() + hoursFromNow * HOUR_MS);
+    const session = (await storage.createSession({
+      requesterId: learner.id,
+      providerId: tutor.id,
+      skillId: forSkill.id,
+      skillRevision: forSkill.revision,
+      scheduledAt,
+    }))!;
+    const agent = new TestAgent(baseUrl);
+    await agent.login(learner.username, PASSWORD);
+    return { learner, session, agent };
+  }
+
+  const setStatus = (session: Session, status: string) =>
+    tutorAgent.request("PATCH", `/api/sessions/${session.id}`, { status });
+
+  it("only completes sessions that were accepted", async () => {
+    const { session } = await requestSession(-24);
+    const response = await setStatus(session, "completed");
+    assert.equal(response.status, 409);
+    assert.deepEqual(response.body, { message: "Only accepted sessions can be completed", code: "SESSION_NOT_ACCEPTED" });
+    assert.equal((await storage.getSession(session.id))!.status, "pending");
+
+    assert.equal((await setStatus(session, "accepted")).status, 200);
+    assert.equal((await setStatus(session, "completed")).status, 200);
+    assert.equal((await storage.getSession(session.id))!.status, "completed");
+  });
+
+  it("only completes sessions once their scheduled time has passed", async () => {
+    for (const hoursFromNow of [undefined, 24]) {
+      const { session } = await requestSession(hoursFromNow);
+      assert.equal((await setStatus(session, "accepted")).status, 200);
+      const response = await setStatus(session, "completed");
+      assert.equal(response.status, 409, `scheduled ${hoursFromNow} hours from now`);
+      assert.equal((response.body as { code: string }).code, "SESSION_NOT_HELD");
+      assert.equal((await storage.getSession(session.id))!.status, "accepted");
+    }
+  });
+
+  it("only lets learners from sessions that took place endorse", async () => {
+    // Marked completed without ever being scheduled, the way the API used to allow
+    const unscheduled = await requestSession();
+    await storage.updateSession(unscheduled.session.id, { status: "completed" });
+    const refused = await unscheduled.agent.post(`/api/skills/${skill.id}/endorsements`);
+    assert.equal(refused.status, 403);
+    assert.equal((refused.body as { code: string }).code, "NO_COMPLETED_SESSION");
+
+    const held = await requestSession(-48);
+    await setStatus(held.session, "accepted");
+    await setStatus(held.session, "completed");
+    const endorsed = await held.agent.post(`/api/skills/${skill.id}/endorsements`);
+    assert.equal(endorsed.status, 201);
+  });
+
+  it("only counts endorsements made since the proficiency last changed towards verifying", async () => {
+    const statistics = await storage.createSkill({
+      userId: tutor.id,
+      name: "Statistics",
+      category: "mathematics",
+      type: "offering",
+      experienceLevel: "intermediate",
+    });
+    let hoursAgo = 72;
+    const endorse = async () => {
+      const { session, agent } = await requestSession(-(hoursAgo += 24), statistics);
+      await setStatus(session, "accepted");
+      await setStatus(session, "completed");
+      const response = await agent.post(`/api/skills/${statistics.id}/endorsements`);
+      assert.equal(response.status, 201);
+      return response.body as { endorsementCount: number; verifiedAt: string | null };
+    };
+    const edit = async (changes: object) => {
+      const response = await tutorAgent.request("PATCH", `/api/skills/${statistics.id}`, changes);
+      assert.equal(response.status, 200);
+      return response.body as Skill;
+    };
+
+    for (let i = 1; i < ENDORSEMENTS_TO_VERIFY; i++) {
+      assert.equal((await endorse()).verifiedAt, null);
+    }
+    assert.notEqual((await endorse()).verifiedAt, null);
+
+    // Renaming it doesn't change what was vouched for
+    assert.notEqual((await edit({ name: "Statistics and Probability" })).verifiedAt, null);
+
+    const raised = await edit({ experienceLevel: "expert" });
+    assert.equal(raised.verifiedAt, null);
+    assert.equal(raised.endorsementCount, ENDORSEMENTS_TO_VERIFY);
+
+    for (let i = 1; i < ENDORSEMENTS_TO_VERIFY; i++) {
+      const { endorsementCount, verifiedAt } = await endorse();
+      assert.equal(endorsementCount, ENDORSEMENTS_TO_VERIFY + i);
+      assert.equal(verifiedAt, null, `verified after ${i} new endorsements`);
+    }
+    assert.notEqual((await endorse()).verifiedAt, null);
+  });
+});
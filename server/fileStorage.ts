@@ -0,0 +1,54 @@
+import express, { type RequestHandler } from "express";
+import { mkdir, writeFile, rm } from "fs/promises";
+import path from "path";
+
+// Where user uploads (avatars for now) are kept. Keys are slash-separated
+// paths such as "avatars/<userId>/<name>.webp"; implementations map them to
+// files or objects and return the public URL.
+export interface FileStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  // Removes every object under a prefix, e.g. all of a user's avatar sizes
+  deletePrefix(prefix: string): Promise<void>;
+  // Serves stored files from this app, when the backend needs it to
+  staticHandler(): RequestHandler | undefined;
+}
+
+export const UPLOADS_PATH = "/uploads";
+
+function assertSafeKey(key: string) {
+  if (key.split("/").some((part) => part === "" || part === "." || part === "..")) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export class LocalDiskStorage implements FileStorage {
+  constructor(private readonly directory: string) {}
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<string> {
+    assertSafeKey(key);
+    const filePath = path.join(this.directory, key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+    return `${UPLOADS_PATH}/${key}`;
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    assertSafeKey(prefix);
+    await rm(path.join(this.directory, prefix), { recursive: true, force: true });
+  }
+
+  staticHandler(): RequestHandler {
+    // File names are unique per upload, so they can be cached forever
+    return express.static(this.directory, { immutable: true, maxAge: "365d", index: false });
+  }
+}
+
+export function createFileStorage(): FileStorage {
+  const backend = process.env.FILE_STORAGE || "local";
+  if (backend === "local") {
+    return new LocalDiskStorage(process.env.UPLOAD_DIR || path.resolve("data", "uploads"));
+  }
+  throw new Error(`Unknown FILE_STORAGE backend: ${backend}`);
+}
+
+export const fileStorage = createFileStorage();
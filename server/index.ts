@@ -1,11 +1,19 @@
 import express, { type Request, Response, NextFunction } from "express";
+import { config } from "./config";
+import { runDataMigrations } from "./migrations";
 import { registerRoutes } from "./routes";
+import { startReminderJob } from "./reminders";
+import { securityHeaders } from "./security";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
 const app = express();
 const httpServer = createServer(app);
 
+app.disable("x-powered-by");
+app.set("trust proxy", config.trustProxy);
+app.use(securityHeaders(config.isProduction));
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -33,6 +41,9 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Never log response bodies from these
+const SENSITIVE_PATHS = ["/api/auth", "/api/users/me/tokens"];
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -48,7 +59,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Auth responses can carry tokens, 2FA secrets and recovery codes
+      if (capturedJsonResponse && !SENSITIVE_PATHS.some((prefix) => path.startsWith(prefix))) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -60,20 +72,31 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await runDataMigrations();
   await registerRoutes(httpServer, app);
+  startReminderJob();
+
+  app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      return next(err);
+    }
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
+    // Don't leak internals from unexpected errors in production
+    const message = status >= 500 && config.isProduction
+      ? "Internal Server Error"
+      : err.message || "Internal Server Error";
 
+    if (status >= 500) {
+      console.error("Unhandled error:", err);
+    }
     res.status(status).json({ message });
-    throw err;
   });
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
   // doesn't interfere with the other routes
-  if (process.env.NODE_ENV === "production") {
+  if (config.isProduction) {
     serveStatic(app);
   } else {
     const { setupVite } = await import("./vite");
@@ -84,7 +107,7 @@ app.use((req, res, next) => {
   // Other ports are firewalled. Default to 5000 if not specified.
   // this serves both the API and the client.
   // It is the only port that is not firewalled.
-  const port = parseInt(process.env.PORT || "5000", 10);
+  const port = config.port;
   httpServer.listen(
     {
       port,
@@ -0,0 +1,195 @@
+import { pool } from "./db";
+import { DEFAULT_CATEGORIES, FALLBACK_CATEGORY_SLUG } from "@shared/categories";
+import { EXPERIENCE_LEVELS, type ExperienceLevel } from "@shared/proficiency";
+import { SEARCH_DOCUMENT_SQL } from "./search";
+
+// Data migrations that `drizzle-kit push` can't express. Each one is
+// idempotent and runs at startup; start the app once after upgrading and
+// before running db:push, or push will drop the old columns unmigrated.
+
+async function tableExists(table: string) {
+  const { rowCount } = await pool.query("SELECT 1 FROM information_schema.tables WHERE table_name = $1", [table]);
+  return (rowCount ?? 0) > 0;
+}
+
+async function columnExists(table: string, column: string) {
+  const { rowCount } = await pool.query(
+    "SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2",
+    [table, column],
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+// users.is_admin was replaced by users.role. Existing admins become super
+// admins so someone can still grant every role.
+async function migrateAdminFlagToRole() {
+  if (!(await columnExists("users", "is_admin"))) {
+    return;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("ALTER TABLE users ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'user'");
+    await client.query("UPDATE users SET role = 'super_admin' WHERE is_admin");
+    await client.query("ALTER TABLE users DROP COLUMN is_admin");
+    await client.query("COMMIT");
+    console.log("[migrations] moved users.is_admin to users.role");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// skills.category used to be free text and now holds a categories.slug.
+// Seeds the old hardcoded list into an empty categories table, then maps each
+// skill (and saved revision) by name, sending anything unrecognised to
+// "Other". Unlike the others this needs db:push to have created the table
+// first, so it does nothing until the next start after pushing.
+async function mapFreeTextCategories() {
+  if (!(await tableExists("categories"))) {
+    return;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const { rowCount: existing } = await client.query("SELECT 1 FROM categories LIMIT 1");
+    if (!existing) {
+      for (let index = 0; index < DEFAULT_CATEGORIES.length; index++) {
+        const category = DEFAULT_CATEGORIES[index];
+        await client.query(
+          "INSERT INTO categories (slug, name, icon, color, sort_order) VALUES ($1, $2, $3, $4, $5)",
+          [category.slug, category.name, category.icon, category.color, index],
+        );
+      }
+      console.log("[migrations] seeded default skill categories");
+    }
+
+    let mapped = 0;
+    for (const table of ["skills", "skill_revisions"]) {
+      const byName = await client.query(
+        `UPDATE ${table} t SET category = c.slug FROM categories c
+         WHERE t.category NOT IN (SELECT slug FROM categories)
+           AND lower(trim(t.category)) IN (lower(c.name), c.slug)`,
+      );
+      const unmatched = await client.query(
+        `UPDATE ${table} SET category = $1
+         WHERE category NOT IN (SELECT slug FROM categories)
+           AND EXISTS (SELECT 1 FROM categories WHERE slug = $1)`,
+        [FALLBACK_CATEGORY_SLUG],
+      );
+      mapped += (byName.rowCount ?? 0) + (unmatched.rowCount ?? 0);
+    }
+    await client.query("COMMIT");
+    if (mapped > 0) {
+      console.log(`[migrations] mapped ${mapped} free-text skill categories to category slugs`);
+    }
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Free-text levels people typed before the scale existed, and where they sit on it
+const EXPERIENCE_LEVEL_ALIASES: Record<string, ExperienceLevel> = {
+  novice: "beginner",
+  basic: "beginner",
+  basics: "beginner",
+  starter: "beginner",
+  "entry level": "beginner",
+  "just starting": "beginner",
+  medium: "intermediate",
+  moderate: "intermediate",
+  average: "intermediate",
+  competent: "intermediate",
+  decent: "intermediate",
+  "mid level": "intermediate",
+  proficient: "advanced",
+  experienced: "advanced",
+  skilled: "advanced",
+  strong: "advanced",
+  fluent: "advanced",
+  "very good": "advanced",
+  master: "expert",
+  professional: "expert",
+  pro: "expert",
+  native: "expert",
+  "native speaker": "expert",
+};
+
+// skills.experience_level was never validated. Values that are a level or a
+// common way of saying one, apart from case, spacing and hyphens, are mapped
+// onto the scale. Anything else is moved to the end of the skill's
+// description, so the owner still sees what they wrote and can pick a level.
+// Revisions are history and only get the mapping.
+async function normalizeExperienceLevels() {
+  const aliases = Object.entries(EXPERIENCE_LEVEL_ALIASES).concat(EXPERIENCE_LEVELS.map((level) => [level, level]));
+  let mapped = 0;
+  let moved = 0;
+  for (const table of ["skills", "skill_revisions"]) {
+    if (!(await tableExists(table))) {
+      continue;
+    }
+    const result = await pool.query(
+      `UPDATE ${table} t SET experience_level = a.level
+       FROM unnest($1::text[], $2::text[]) AS a(alias, level)
+       WHERE regexp_replace(lower(trim(t.experience_level)), '[[:space:]_-]+', ' ', 'g') = a.alias
+         AND t.experience_level <> a.level`,
+      [aliases.map(([alias]) => alias), aliases.map(([, level]) => level)],
+    );
+    mapped += result.rowCount ?? 0;
+  }
+  if (await tableExists("skills")) {
+    const result = await pool.query(
+      `UPDATE skills
+       SET description = concat_ws(E'\\n\\n', nullif(trim(description), ''), 'Experience: ' || trim(experience_level)),
+           experience_level = NULL
+       WHERE experience_level IS NOT NULL AND NOT (experience_level = ANY($1))`,
+      [EXPERIENCE_LEVELS],
+    );
+    moved = result.rowCount ?? 0;
+  }
+  if (mapped > 0) {
+    console.log(`[migrations] mapped ${mapped} skill experience levels onto the scale`);
+  }
+  if (moved > 0) {
+    console.log(`[migrations] moved ${moved} unrecognised skill experience levels into descriptions`);
+  }
+}
+
+// Search's trigram index needs pg_trgm, which db:push can't install. It ships
+// with Postgres, so this works on a local database as well as a hosted one.
+async function enableTrigramExtension() {
+  await pool.query("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+}
+
+// Builds full-text search documents for skills that don't have one yet,
+// which is every skill the first time. Like the category mapping this waits
+// for db:push to have created the table.
+async function buildSearchDocuments() {
+  if (!(await tableExists("skill_search_documents"))) {
+    return;
+  }
+
+  const { rowCount } = await pool.query(
+    `INSERT INTO skill_search_documents (skill_id, document)
+     SELECT skills.id, ${SEARCH_DOCUMENT_SQL} FROM skills
+     WHERE NOT EXISTS (SELECT 1 FROM skill_search_documents d WHERE d.skill_id = skills.id)`,
+  );
+  if (rowCount) {
+    console.log(`[migrations] built search documents for ${rowCount} skills`);
+  }
+}
+
+export async function runDataMigrations() {
+  await migrateAdminFlagToRole();
+  await mapFreeTextCategories();
+  await normalizeExperienceLevels();
+  await enableTrigramExtension();
+  await buildSearchDocuments();
+}
@@ -0,0 +1,310 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, createHmac, generateKeyPairSync, randomBytes, sign, type KeyObject } from "crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { skipWithoutDatabase, setupTestDatabase, startTestServer, TestAgent } from "./testing";
+
+// A local identity provider: discovery, an authorization endpoint that
+// approves straight away, a PKCE-checking token endpoint and a JWKS. Tests
+// can change the next ID token it issues to check it gets rejected.
+
+const CLIENT_ID = "skillswap";
+const CLIENT_SECRET = "client-secret";
+const KEY_ID = "test-key";
+
+type Signing = "valid" | "wrong-key" | "none" | "hs256";
+
+interface TokenOverrides {
+  claims?: Record<string, unknown>;
+  signing?: Signing;
+}
+
+interface PendingCode {
+  codeChallenge: string;
+  nonce: string;
+  redirectUri: string;
+}
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const { privateKey: otherPrivateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const codes = new Map<string, PendingCode>();
+let nextToken: TokenOverrides = {};
+let user = { sub: "student-1", email: "sam@school.example", email_verified: true, name: "Sam Student" };
+
+function base64UrlJson(value: unknown) {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signIdToken(claims: Record<string, unknown>, signing: Signing) {
+  const alg = signing === "none" ? "none" : signing === "hs256" ? "HS256" : "RS256";
+  const input = `${base64UrlJson({ alg, kid: KEY_ID, typ: "JWT" })}.${base64UrlJson(claims)}`;
+  let signature: Buffer;
+  if (signing === "none") {
+    signature = Buffer.alloc(0);
+  } else if (signing === "hs256") {
+    signature = createHmac("sha256", CLIENT_SECRET).update(input).digest();
+  } else {
+    const key: KeyObject = signing === "wrong-key" ? otherPrivateKey : privateKey;
+    signature = sign("sha256", Buffer.from(input), key);
+  }
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+}
+
+const idp = createServer(async (req, res) => {
+  const url = new URL(req.url!, issuer);
+
+  if (url.pathname === "/.well-known/openid-configuration") {
+    return sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    });
+  }
+
+  if (url.pathname === "/jwks") {
+    return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, use: "sig", alg: "RS256" }] });
+  }
+
+  if (url.pathname === "/authorize") {
+    const params = url.searchParams;
+    if (params.get("client_id") !== CLIENT_ID || params.get("code_challenge_method") !== "S256") {
+      return sendJson(res, 400, { error: "invalid_request" });
+    }
+    const code = randomBytes(16).toString("hex");
+    codes.set(code, {
+      codeChallenge: params.get("code_challenge")!,
+      nonce: params.get("nonce")!,
+      redirectUri: params.get("redirect_uri")!,
+    });
+    const redirect = new URL(params.get("redirect_uri")!);
+    redirect.searchParams.set("code", code);
+    redirect.searchParams.set("state", params.get("state")!);
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (url.pathname === "/token" && req.method === "POST") {
+    const body = await readBody(req);
+    const expectedAuth = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64")}`;
+    if (req.headers.authorization !== expectedAuth) {
+      return sendJson(res, 401, { error: "invalid_client" });
+    }
+    // Codes are single use
+    const pending = codes.get(body.get("code") ?? "");
+    codes.delete(body.get("code") ?? "");
+    const verifier = body.get("code_verifier") ?? "";
+    if (
+      !pending ||
+      body.get("grant_type") !== "authorization_code" ||
+      body.get("redirect_uri") !== pending.redirectUri ||
+      createHash("sha256").update(verifier).digest("base64url") !== pending.codeChallenge
+    ) {
+      return sendJson(res, 400, { error: "invalid_grant" });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const { claims = {}, signing = "valid" } = nextToken;
+    nextToken = {};
+    const idToken = signIdToken({ iss: issuer, aud: CLIENT_ID, iat: now, exp: now + 300, nonce: pending.nonce, ...user, ...claims }, signing);
+    return sendJson(res, 200, { access_token: "access", token_type: "Bearer", id_token: idToken });
+  }
+
+  sendJson(res, 404, { error: "not_found" });
+});
+
+await new Promise<void>((resolve) => idp.listen(0, "127.0.0.1", resolve));
+const issuer = `http://127.0.0.1:${(idp.address() as AddressInfo).port}`;
+
+// The app reads its OIDC settings when config is first imported
+process.env.OIDC_ISSUER = issuer;
+process.env.OIDC_CLIENT_ID = CLIENT_ID;
+process.env.OIDC_CLIENT_SECRET = CLIENT_SECRET;
+const { config } = await import("./config");
+const { createLoginState, buildAuthorizationUrl, completeLogin, OidcError } = await import("./oidc");
+const oidcConfig = config.oidc!;
+
+const REDIRECT_URI = "http://app.example/api/auth/oidc/callback";
+
+// Runs the browser's part: the provider approves and hands back a code
+async function authorize(login = createLoginState()) {
+  const response = await fetch(await buildAuthorizationUrl(oidcConfig, login, REDIRECT_URI), { redirect: "manual" });
+  const callback = new URL(response.headers.get("location")!);
+  assert.equal(callback.searchParams.get("state"), login.state);
+  return { login, code: callback.searchParams.get("code")! };
+}
+
+async function rejectedLogin(overrides: TokenOverrides, message: RegExp) {
+  const { login, code } = await authorize();
+  nextToken = overrides;
+  await assert.rejects(completeLogin(oidcConfig, login, code, REDIRECT_URI), (error: Error) => {
+    assert.ok(error instanceof OidcError, `expected an OidcError, got ${error}`);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+after(() => {
+  idp.closeAllConnections();
+  idp.close();
+});
+
+describe("OIDC login against a mock provider", () => {
+  it("sends a PKCE challenge and returns the validated claims", async () => {
+    const login = createLoginState();
+    const url = new URL(await buildAuthorizationUrl(oidcConfig, login, REDIRECT_URI));
+    assert.equal(url.searchParams.get("code_challenge_method"), "S256");
+    assert.notEqual(url.searchParams.get("code_challenge"), login.codeVerifier);
+    assert.equal(url.searchParams.has("code_verifier"), false);
+
+    const { code } = await authorize(login);
+    const claims = await completeLogin(oidcConfig, login, code, REDIRECT_URI);
+    assert.equal(claims.sub, user.sub);
+    assert.equal(claims.email, user.email);
+  });
+
+  it("can't redeem a code without the matching verifier", async () => {
+    const { login, code } = await authorize();
+    await assert.rejects(
+      completeLogin(oidcConfig, { ...login, codeVerifier: createLoginState().codeVerifier }, code, REDIRECT_URI),
+      /responded with 400/,
+    );
+  });
+
+  it("rejects a token with a bad signature", async () => {
+    await rejectedLogin({ signing: "wrong-key" }, /signature/);
+  });
+
+  it("rejects unsigned tokens", async () => {
+    await rejectedLogin({ signing: "none" }, /Unsupported ID token algorithm none/);
+  });
+
+  it("rejects tokens signed with the client secret", async () => {
+    await rejectedLogin({ signing: "hs256" }, /Unsupported ID token algorithm HS256/);
+  });
+
+  it("rejects a token issued for another client", async () => {
+    await rejectedLogin({ claims: { aud: "someone-else" } }, /not issued for this client/);
+  });
+
+  it("rejects a token for several audiences unless this client is the authorized party", async () => {
+    await rejectedLogin({ claims: { aud: [CLIENT_ID, "someone-else"] } }, /not issued for this client/);
+    await rejectedLogin({ claims: { aud: [CLIENT_ID, "someone-else"], azp: "someone-else" } }, /not issued for this client/);
+
+    const { login, code } = await authorize();
+    nextToken = { claims: { aud: [CLIENT_ID, "someone-else"], azp: CLIENT_ID } };
+    const claims = await completeLogin(oidcConfig, login, code, REDIRECT_URI);
+    assert.equal(claims.azp, CLIENT_ID);
+  });
+
+  it("rejects a token from another issuer", async () => {
+    await rejectedLogin({ claims: { iss: "https://attacker.example" } }, /issuer mismatch/);
+  });
+
+  it("rejects an expired token", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await rejectedLogin({ claims: { iat: now - 3600, exp: now - 600 } }, /expired/);
+  });
+
+  it("rejects a token carrying the nonce of an earlier login", async () => {
+    const earlier = createLoginState();
+    await rejectedLogin({ claims: { nonce: earlier.nonce } }, /nonce mismatch/);
+  });
+});
+
+describe("single sign-on routes", { skip: skipWithoutDatabase }, () => {
+  let baseUrl: string;
+  let close: () => Promise<void>;
+  let endPool: () => Promise<void>;
+
+  before(async () => {
+    const { pool } = await setupTestDatabase();
+    endPool = () => pool.end();
+    ({ baseUrl, close } = await startTestServer());
+  });
+
+  after(async () => {
+    await close?.();
+    await endPool?.();
+  });
+
+  // Starts a login in the app and lets the provider approve it, returning the
+  // app callback path the browser is sent back to
+  async function startLogin(agent: TestAgent) {
+    const start = await agent.get("/api/auth/oidc/login");
+    assert.equal(start.status, 302);
+    const approved = await fetch(start.headers.get("location")!, { redirect: "manual" });
+    const callback = new URL(approved.headers.get("location")!);
+    return `${callback.pathname}${callback.search}`;
+  }
+
+  it("signs a new user in and creates their account", async () => {
+    const agent = new TestAgent(baseUrl);
+    const callback = await agent.get(await startLogin(agent));
+    assert.equal(callback.headers.get("location"), "/dashboard");
+
+    const me = await agent.get("/api/auth/me");
+    assert.equal(me.status, 200);
+    const signedIn = (me.body as { user: { email: string; emailVerifiedAt: string | null } }).user;
+    assert.equal(signedIn.email, user.email);
+    assert.ok(signedIn.emailVerifiedAt);
+  });
+
+  it("won't complete the same login twice", async () => {
+    const agent = new TestAgent(baseUrl);
+    const callbackPath = await startLogin(agent);
+    await agent.get(callbackPath);
+    await agent.post("/api/auth/logout");
+
+    const replay = await agent.get(callbackPath);
+    assert.equal(replay.headers.get("location"), "/login?sso_error=failed");
+    assert.equal((await agent.get("/api/auth/me")).status, 401);
+  });
+
+  it("refuses a callback whose state doesn't match", async () => {
+    const agent = new TestAgent(baseUrl);
+    const callbackPath = await startLogin(agent);
+    const response = await agent.get(callbackPath.replace(/state=[^&]+/, "state=forged"));
+    assert.equal(response.headers.get("location"), "/login?sso_error=failed");
+  });
+
+  it("sends a bad token back to the login page", async () => {
+    const agent = new TestAgent(baseUrl);
+    const callbackPath = await startLogin(agent);
+    nextToken = { signing: "wrong-key" };
+    const response = await agent.get(callbackPath);
+    assert.equal(response.headers.get("location"), "/login?sso_error=failed");
+    assert.equal((await agent.get("/api/auth/me")).status, 401);
+  });
+
+  it("doesn't link to an existing account whose email isn't verified", async () => {
+    user = { sub: "student-2", email: "unverified@school.example", email_verified: true, name: "Una" };
+    const agent = new TestAgent(baseUrl);
+    await agent.post("/api/auth/register", {
+      username: "una",
+      password: "password123",
+      email: user.email,
+      fullName: "Una",
+    });
+    await agent.post("/api/auth/logout");
+
+    const sso = new TestAgent(baseUrl);
+    const response = await sso.get(await startLogin(sso));
+    assert.equal(response.headers.get("location"), "/login?sso_error=link_unverified");
+  });
+});
@@ -0,0 +1,227 @@
+import { constants, createHash, createPublicKey, verify, type JsonWebKey, type KeyObject } from "crypto";
+import type { OidcConfig } from "./config";
+import { generateToken } from "./tokens";
+
+// OpenID Connect relying party: authorization code flow with PKCE (RFC 7636)
+// and ID token validation per OIDC Core 3.1.3.7.
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+// Only asymmetric algorithms; "none" and HS256 (keyed with the client secret)
+// are refused
+const SUPPORTED_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: "ieee-p1363"; pss?: boolean }> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: { hash: "sha256", pss: true },
+  ES256: { hash: "sha256", dsaEncoding: "ieee-p1363" },
+  ES384: { hash: "sha384", dsaEncoding: "ieee-p1363" },
+};
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+  zoneinfo?: string; // IANA time zone, from the profile scope
+}
+
+// Values generated for one login attempt, kept in the session until the callback
+export interface OidcLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+let metadataCache: { issuer: string; metadata: ProviderMetadata; fetchedAt: number } | null = null;
+let jwksCache: { uri: string; keys: JsonWebKey[] } | null = null;
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(10_000) });
+  if (!response.ok) {
+    throw new OidcError(`${url} responded with ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+async function getMetadata(config: OidcConfig): Promise<ProviderMetadata> {
+  if (metadataCache?.issuer === config.issuer && Date.now() - metadataCache.fetchedAt < DISCOVERY_TTL_MS) {
+    return metadataCache.metadata;
+  }
+
+  const url = `${config.issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`;
+  const metadata = await fetchJson<ProviderMetadata>(url);
+  if (metadata.issuer !== config.issuer) {
+    throw new OidcError(`Discovery document issuer ${metadata.issuer} does not match ${config.issuer}`);
+  }
+  metadataCache = { issuer: config.issuer, metadata, fetchedAt: Date.now() };
+  return metadata;
+}
+
+async function getSigningKey(metadata: ProviderMetadata, kid: string | undefined): Promise<KeyObject> {
+  const find = (keys: JsonWebKey[]) =>
+    keys.find((key) => (kid ? key.kid === kid : true) && (key.use === undefined || key.use === "sig"));
+
+  let key = jwksCache?.uri === metadata.jwks_uri ? find(jwksCache.keys) : undefined;
+  if (!key) {
+    // Unknown kid: the provider may have rotated its keys
+    const { keys } = await fetchJson<{ keys: JsonWebKey[] }>(metadata.jwks_uri);
+    jwksCache = { uri: metadata.jwks_uri, keys };
+    key = find(keys);
+  }
+  if (!key) {
+    throw new OidcError("No matching signing key for ID token");
+  }
+  return createPublicKey({ key, format: "jwk" });
+}
+
+function base64UrlJson<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    throw new OidcError("Malformed ID token");
+  }
+}
+
+export function createLoginState(): OidcLoginState {
+  return {
+    state: generateToken(),
+    nonce: generateToken(),
+    codeVerifier: generateToken(48),
+  };
+}
+
+function codeChallenge(codeVerifier: string) {
+  return createHash("sha256").update(codeVerifier).digest("base64url");
+}
+
+export async function buildAuthorizationUrl(config: OidcConfig, login: OidcLoginState, redirectUri: string) {
+  const metadata = await getMetadata(config);
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", config.scopes);
+  url.searchParams.set("state", login.state);
+  url.searchParams.set("nonce", login.nonce);
+  url.searchParams.set("code_challenge", codeChallenge(login.codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+}
+
+export async function verifyIdToken(config: OidcConfig, idToken: string, nonce: string): Promise<IdTokenClaims> {
+  const metadata = await getMetadata(config);
+  const parts = idToken.split(".");
+  if (parts.length !== 3) {
+    throw new OidcError("Malformed ID token");
+  }
+
+  const header = base64UrlJson<{ alg: string; kid?: string }>(parts[0]);
+  const algorithm = SUPPORTED_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new OidcError(`Unsupported ID token algorithm ${header.alg}`);
+  }
+
+  const key = await getSigningKey(metadata, header.kid);
+  const validSignature = verify(
+    algorithm.hash,
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    {
+      key,
+      dsaEncoding: algorithm.dsaEncoding,
+      padding: algorithm.pss ? constants.RSA_PKCS1_PSS_PADDING : undefined,
+    },
+    Buffer.from(parts[2], "base64url"),
+  );
+  if (!validSignature) {
+    throw new OidcError("Invalid ID token signature");
+  }
+
+  const claims = base64UrlJson<IdTokenClaims>(parts[1]);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== metadata.issuer) {
+    throw new OidcError("ID token issuer mismatch");
+  }
+  if (!audiences.includes(config.clientId) || (audiences.length > 1 && claims.azp !== config.clientId)) {
+    throw new OidcError("ID token was not issued for this client");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new OidcError("ID token has expired");
+  }
+  if (typeof claims.iat === "number" && claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new OidcError("ID token issued in the future");
+  }
+  if (claims.nonce !== nonce) {
+    throw new OidcError("ID token nonce mismatch");
+  }
+  if (!claims.sub) {
+    throw new OidcError("ID token has no subject");
+  }
+
+  return claims;
+}
+
+// Redeems the authorization code and returns the validated ID token claims
+export async function completeLogin(
+  config: OidcConfig,
+  login: OidcLoginState,
+  code: string,
+  redirectUri: string,
+): Promise<IdTokenClaims> {
+  const metadata = await getMetadata(config);
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: login.codeVerifier,
+    client_id: config.clientId,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (config.clientSecret) {
+    // client_secret_basic, the default token endpoint auth method
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: "POST",
+    headers,
+    body,
+  });
+  if (!tokens.id_token) {
+    throw new OidcError("Token response did not include an ID token");
+  }
+  return verifyIdToken(config, tokens.id_token, login.nonce);
+}
+
+export function isEmailVerified(claims: IdTokenClaims) {
+  // Some providers send the claim as a string
+  return claims.email_verified === true || claims.email_verified === "true";
+}
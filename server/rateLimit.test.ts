@@ -0,0 +1,210 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import bcrypt from "bcrypt";
+import { generateTotp, generateTotpSecret } from "./totp";
+import { skipWithoutDatabase, setupTestDatabase, startTestServer, TestAgent } from "./testing";
+
+// rateLimit.ts loads the database module, which wants a URL. The memory
+// store never connects to it.
+process.env.DATABASE_URL ??= "postgres://localhost/unused";
+const { MemoryRateLimitStore, LoginThrottle } = await import("./rateLimit");
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const IP = "203.0.113.7";
+const OTHER_IP = "198.51.100.20";
+
+// The login route's options, with a shorter maximum lockout
+const THROTTLE_OPTIONS = { threshold: 5, failureWindowMs: HOUR_MS, baseLockMs: MINUTE_MS, maxLockMs: 4 * MINUTE_MS };
+
+describe("MemoryRateLimitStore", () => {
+  let now: number;
+  beforeEach(() => {
+    now = Date.parse("2026-03-01T12:00:00Z");
+    mock.method(Date, "now", () => now);
+  });
+  afterEach(() => mock.restoreAll());
+
+  it("counts hits within a window and starts a new one once it ends", async () => {
+    const store = new MemoryRateLimitStore();
+    assert.deepEqual(await store.increment("key", MINUTE_MS), { count: 1, resetAt: new Date(now + MINUTE_MS) });
+    now += 30 * 1000;
+    assert.equal((await store.increment("key", MINUTE_MS)).count, 2);
+    assert.equal((await store.get("key"))?.count, 2);
+
+    now += 30 * 1000;
+    assert.equal(await store.get("key"), undefined);
+    assert.deepEqual(await store.increment("key", MINUTE_MS), { count: 1, resetAt: new Date(now + MINUTE_MS) });
+  });
+
+  it("keeps keys apart and forgets a key when reset", async () => {
+    const store = new MemoryRateLimitStore();
+    await store.increment("a", MINUTE_MS);
+    await store.increment("a", MINUTE_MS);
+    await store.increment("b", MINUTE_MS);
+    await store.reset("a");
+    assert.equal(await store.get("a"), undefined);
+    assert.equal((await store.get("b"))?.count, 1);
+  });
+});
+
+describe("LoginThrottle", () => {
+  let now: number;
+  beforeEach(() => {
+    now = Date.parse("2026-03-01T12:00:00Z");
+    mock.method(Date, "now", () => now);
+  });
+  afterEach(() => mock.restoreAll());
+
+  const failTimes = async (throttle: InstanceType<typeof LoginThrottle>, times: number, ip = IP) => {
+    let lockedUntil: Date | undefined;
+    for (let i = 0; i < times; i++) {
+      lockedUntil = await throttle.recordFailure("ada", ip);
+    }
+    return lockedUntil;
+  };
+
+  it("locks the account after five failures", async () => {
+    const throttle = new LoginThrottle(new MemoryRateLimitStore(), THROTTLE_OPTIONS);
+    assert.equal(await failTimes(throttle, 4), undefined);
+    assert.equal(await throttle.lockedUntil("ada", IP), undefined);
+
+    assert.deepEqual(await throttle.recordFailure("ada", IP), new Date(now + MINUTE_MS));
+    assert.deepEqual(await throttle.lockedUntil("ada", IP), new Date(now + MINUTE_MS));
+    // Usernames are case-insensitive
+    assert.deepEqual(await throttle.lockedUntil("ADA", IP), new Date(now + MINUTE_MS));
+
+    now += MINUTE_MS;
+    assert.equal(await throttle.lockedUntil("ada", IP), undefined);
+  });
+
+  it("doubles the lockout with each further failure, up to the maximum", async () => {
+    const throttle = new LoginThrottle(new MemoryRateLimitStore(), THROTTLE_OPTIONS);
+    await failTimes(throttle, 5);
+    const lockouts: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      lockouts.push((await throttle.recordFailure("ada", IP))!.getTime() - now);
+    }
+    assert.deepEqual(lockouts, [2, 4, 4, 4].map((minutes) => minutes * MINUTE_MS));
+  });
+
+  it("forgets failures once the failure window has passed", async () => {
+    const throttle = new LoginThrottle(new MemoryRateLimitStore(), THROTTLE_OPTIONS);
+    await failTimes(throttle, 4);
+    now += HOUR_MS;
+    assert.equal(await failTimes(throttle, 4), undefined);
+  });
+
+  it("clears failures and the lock on success", async () => {
+    const throttle = new LoginThrottle(new MemoryRateLimitStore(), THROTTLE_OPTIONS);
+    await failTimes(throttle, 5);
+    await throttle.recordSuccess("ada", IP);
+    assert.equal(await throttle.lockedUntil("ada", IP), undefined);
+    assert.equal(await failTimes(throttle, 4), undefined);
+  });
+
+  it("doesn't lock the account out for other IPs", async () => {
+    const throttle = new LoginThrottle(new MemoryRateLimitStore(), THROTTLE_OPTIONS);
+    await failTimes(throttle, 8, OTHER_IP);
+    assert.equal(await throttle.lockedUntil("ada", IP), undefined);
+    assert.equal(await failTimes(throttle, 4), undefined);
+  });
+});
+
+describe("LoginThrottle.guard", () => {
+  let baseUrl: string;
+  let close: () => void;
+  const throttle = new LoginThrottle(new MemoryRateLimitStore(), THROTTLE_OPTIONS);
+
+  before(async () => {
+    const app = express();
+    app.set("trust proxy", true);
+    app.use(express.json());
+    app.post("/login", throttle.guard((req) => req.body.username), (_req, res) => res.json({ ok: true }));
+    const server = createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    close = () => server.close();
+  });
+
+  after(() => close?.());
+
+  const login = (username: string, ip: string) =>
+    fetch(`${baseUrl}/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Forwarded-For": ip },
+      body: JSON.stringify({ username }),
+    });
+
+  it("rejects a locked account with 429 and Retry-After", async () => {
+    for (let i = 0; i < 6; i++) {
+      await throttle.recordFailure("ada", IP);
+    }
+    const response = await login("ada", IP);
+    assert.equal(response.status, 429);
+    assert.equal(response.headers.get("Retry-After"), "120");
+    assert.deepEqual(await response.json(), { message: "Too many failed login attempts. Try again in 2 minutes." });
+
+    assert.equal((await login("ada", OTHER_IP)).status, 200);
+    assert.equal((await login("bea", IP)).status, 200);
+  });
+});
+
+describe("login lockout", { skip: skipWithoutDatabase }, () => {
+  const PASSWORD = "correct horse battery";
+  let close: () => Promise<void>;
+  let endPool: () => Promise<void>;
+  let baseUrl: string;
+  const secret = generateTotpSecret();
+
+  before(async () => {
+    const { pool, storage } = await setupTestDatabase();
+    endPool = () => pool.end();
+
+    const hashed = await bcrypt.hash(PASSWORD, 4);
+    for (const username of ["ada", "bea"]) {
+      const user = await storage.createUser({ username, password: hashed, email: `${username}@example.com`, fullName: username });
+      await storage.updateUser(user.id, { emailVerifiedAt: new Date(), totpSecret: secret, totpEnabledAt: new Date() });
+    }
+
+    ({ baseUrl, close } = await startTestServer());
+  });
+
+  after(async () => {
+    await close?.();
+    await endPool?.();
+  });
+
+  const failLogins = async (agent: TestAgent, username: string, times: number) => {
+    for (let i = 0; i < times; i++) {
+      const response = await agent.post("/api/auth/login", { username, password: "wrong" });
+      assert.equal(response.status, 401);
+    }
+  };
+
+  it("doesn't clear failures for a correct password until the second factor is given", async () => {
+    const agent = new TestAgent(baseUrl);
+    await failLogins(agent, "ada", 4);
+    const password = await agent.post("/api/auth/login", { username: "ada", password: PASSWORD });
+    assert.deepEqual(password.body, { twoFactorRequired: true });
+
+    const locked = await agent.post("/api/auth/login", { username: "ada", password: "wrong" });
+    assert.equal(locked.status, 429);
+    assert.equal(locked.headers.get("Retry-After"), "60");
+    const stillLocked = await agent.post("/api/auth/login", { username: "ada", password: PASSWORD });
+    assert.equal(stillLocked.status, 429);
+  });
+
+  it("clears failures once the second factor is accepted", async () => {
+    const agent = new TestAgent(baseUrl);
+    await failLogins(agent, "bea", 4);
+    await agent.post("/api/auth/login", { username: "bea", password: PASSWORD });
+    const signedIn = await agent.post("/api/auth/login/2fa", { code: generateTotp(secret) });
+    assert.equal(signedIn.status, 200);
+
+    await failLogins(agent, "bea", 4);
+  });
+});
@@ -0,0 +1,206 @@
+import type { Request, Response, NextFunction } from "express";
+import { rateLimits } from "@shared/schema";
+import { db } from "./db";
+import { eq, lt, sql } from "drizzle-orm";
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+// Fixed-window counters keyed by an arbitrary string
+export interface RateLimitStore {
+  // Adds one to the key's counter, starting a new window if the old one has expired
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  // Current window for the key, or undefined if there is none or it has expired
+  get(key: string): Promise<RateLimitHit | undefined>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const existing = this.hits.get(key);
+    const hit = existing && existing.resetAt.getTime() > now
+      ? { count: existing.count + 1, resetAt: existing.resetAt }
+      : { count: 1, resetAt: new Date(now + windowMs) };
+    this.hits.set(key, hit);
+    return hit;
+  }
+
+  async get(key: string): Promise<RateLimitHit | undefined> {
+    const hit = this.hits.get(key);
+    if (!hit || hit.resetAt.getTime() <= Date.now()) {
+      return undefined;
+    }
+    return hit;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+}
+
+// Shares counters between app instances through the rate_limits table
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(cleanupIntervalMs = 10 * 60 * 1000) {
+    setInterval(() => {
+      db.delete(rateLimits).where(lt(rateLimits.resetAt, new Date())).catch((error) => {
+        console.error("Rate limit cleanup failed:", error);
+      });
+    }, cleanupIntervalMs).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+    // One statement so concurrent requests can't both see a fresh window
+    const [hit] = await db
+      .insert(rateLimits)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${rateLimits.resetAt} <= ${now} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${rateLimits.resetAt} <= ${now} THEN ${resetAt} ELSE ${rateLimits.resetAt} END`,
+        },
+      })
+      .returning({ count: rateLimits.count, resetAt: rateLimits.resetAt });
+    return hit;
+  }
+
+  async get(key: string): Promise<RateLimitHit | undefined> {
+    const [hit] = await db.select().from(rateLimits).where(eq(rateLimits.key, key));
+    if (!hit || hit.resetAt.getTime() <= Date.now()) {
+      return undefined;
+    }
+    return { count: hit.count, resetAt: hit.resetAt };
+  }
+
+  async reset(key: string): Promise<void> {
+    await db.delete(rateLimits).where(eq(rateLimits.key, key));
+  }
+}
+
+// RATE_LIMIT_STORE=memory|postgres; defaults to postgres in production
+export function createRateLimitStore(): RateLimitStore {
+  const kind = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === "production" ? "postgres" : "memory");
+  return kind === "postgres" ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
+}
+
+function secondsUntil(date: Date) {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+function tooManyRequests(res: Response, resetAt: Date, message: string) {
+  res.setHeader("Retry-After", String(secondsUntil(resetAt)));
+  return res.status(429).json({ message });
+}
+
+interface RateLimitOptions {
+  name: string;
+  windowMs: number;
+  max: number;
+  // Bucket key for this request; returning undefined skips the limit
+  key: (req: Request) => string | undefined;
+  message?: string;
+}
+
+export function rateLimit(store: RateLimitStore, options: RateLimitOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = options.key(req);
+    if (key === undefined) {
+      return next();
+    }
+
+    try {
+      const hit = await store.increment(`${options.name}:${key}`, options.windowMs);
+      res.setHeader("RateLimit-Limit", String(options.max));
+      res.setHeader("RateLimit-Remaining", String(Math.max(0, options.max - hit.count)));
+      res.setHeader("RateLimit-Reset", String(secondsUntil(hit.resetAt)));
+
+      if (hit.count > options.max) {
+        return tooManyRequests(res, hit.resetAt, options.message || "Too many requests. Please try again later.");
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+interface LoginThrottleOptions {
+  // Failures allowed before the first lockout
+  threshold: number;
+  // How long failures are remembered
+  failureWindowMs: number;
+  // First lockout length; doubles with each further failure up to maxLockMs
+  baseLockMs: number;
+  maxLockMs: number;
+}
+
+// Progressive lockout after repeated failed logins to an account from one IP.
+// Keyed on both, so someone who only knows a username can't keep its owner
+// locked out; the per-IP login limit bounds guesses spread over many accounts.
+export class LoginThrottle {
+  constructor(private store: RateLimitStore, private options: LoginThrottleOptions) {}
+
+  private failureKey(account: string, ip: string) {
+    return `login-failures:${account.toLowerCase()}:${ip}`;
+  }
+
+  private lockKey(account: string, ip: string) {
+    return `login-lock:${account.toLowerCase()}:${ip}`;
+  }
+
+  // Returns the time the lock lifts, or undefined if the account isn't locked
+  async lockedUntil(account: string, ip: string): Promise<Date | undefined> {
+    const lock = await this.store.get(this.lockKey(account, ip));
+    return lock?.resetAt;
+  }
+
+  async recordFailure(account: string, ip: string): Promise<Date | undefined> {
+    const { threshold, failureWindowMs, baseLockMs, maxLockMs } = this.options;
+    const failures = await this.store.increment(this.failureKey(account, ip), failureWindowMs);
+    if (failures.count < threshold) {
+      return undefined;
+    }
+
+    const lockMs = Math.min(baseLockMs * 2 ** (failures.count - threshold), maxLockMs);
+    await this.store.reset(this.lockKey(account, ip));
+    const lock = await this.store.increment(this.lockKey(account, ip), lockMs);
+    return lock.resetAt;
+  }
+
+  async recordSuccess(account: string, ip: string): Promise<void> {
+    await this.store.reset(this.failureKey(account, ip));
+    await this.store.reset(this.lockKey(account, ip));
+  }
+
+  // Middleware that rejects requests for a locked account with 429 + Retry-After
+  guard(account: (req: Request) => string | undefined) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const name = account(req);
+      if (!name) {
+        return next();
+      }
+
+      try {
+        const until = await this.lockedUntil(name, req.ip || "");
+        if (until) {
+          return tooManyRequests(res, until, lockoutMessage(until));
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+}
+
+export function lockoutMessage(until: Date) {
+  const minutes = Math.ceil(secondsUntil(until) / 60);
+  return `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
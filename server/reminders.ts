@@ -0,0 +1,63 @@
+import { formatDateTime } from "@shared/time";
+import type { Session, User } from "@shared/schema";
+import { storage } from "./storage";
+import { mailer } from "./mail";
+
+// Both people in an accepted session get an email this long before it starts
+export const REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+const REMINDER_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// "Tue, Mar 10, 4:00 PM CDT" in the recipient's zone, plus the other person's
+// local time when they are somewhere else
+function describeTime(scheduledAt: Date, recipient: User, other: User) {
+  const local = formatDateTime(scheduledAt, recipient.timeZone, "en-US");
+  if (!other.timeZone || other.timeZone === recipient.timeZone) {
+    return local;
+  }
+  return `${local} (${formatDateTime(scheduledAt, other.timeZone, "en-US")} for ${other.fullName})`;
+}
+
+async function sendReminder(session: Session) {
+  const [requester, provider, skill] = await Promise.all([
+    storage.getUser(session.requesterId),
+    storage.getUser(session.providerId),
+    storage.getSkill(session.skillId),
+  ]);
+  if (!requester || !provider || !skill) {
+    return;
+  }
+
+  for (const [recipient, other, role] of [
+    [requester, provider, "learning"],
+    [provider, requester, "teaching"],
+  ] as const) {
+    await mailer.send({
+      to: recipient.email,
+      subject: `Reminder: ${skill.name} with ${other.fullName}`,
+      text: `Hi ${recipient.fullName},\n\nYou're ${role} ${skill.name} with ${other.fullName} on ${describeTime(session.scheduledAt!, recipient, other)}.\n\nIf you can't make it, please cancel the session from your dashboard so they know.`,
+    });
+  }
+}
+
+export async function sendDueReminders(): Promise<void> {
+  const due = await storage.getSessionsDueForReminder(new Date(Date.now() + REMINDER_LEAD_MS));
+  for (const session of due) {
+    // Claim first so two app instances never both send
+    if (!(await storage.claimSessionReminder(session.id))) {
+      continue;
+    }
+    await sendReminder(session).catch((error) => {
+      console.error(`Reminder for session ${session.id} failed:`, error);
+    });
+  }
+}
+
+export function startReminderJob() {
+  const run = () => {
+    sendDueReminders().catch((error) => {
+      console.error("Session reminders failed:", error);
+    });
+  };
+  run();
+  setInterval(run, REMINDER_CHECK_INTERVAL_MS).unref();
+}
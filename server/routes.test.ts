@@ -0,0 +1,160 @@
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import bcrypt from "bcrypt";
+import { generateTotp, generateTotpSecret } from "./totp";
+import { skipWithoutDatabase, setupTestDatabase, startTestServer, TestAgent, type TestResponse } from "./testing";
+
+const PASSWORD = "correct horse battery";
+const TOTP_SECRET = generateTotpSecret();
+
+// Never sent to anyone, not even the account's owner
+const isSecretField = (key: string) =>
+  key.toLowerCase().includes("password") || key === "totpSecret" || key === "totpRecoveryCodes";
+// Only sent to the account's owner and admins
+const isPrivateField = (key: string) => isSecretField(key) || key === "email";
+
+// Paths to every matching key anywhere in a response body
+function fieldsMatching(value: unknown, matches: (key: string) => boolean, path = "body"): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => fieldsMatching(item, matches, `${path}[${index}]`));
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, child]) => [
+      ...(matches(key) ? [`${path}.${key}`] : []),
+      ...fieldsMatching(child, matches, `${path}.${key}`),
+    ]);
+  }
+  return [];
+}
+
+describe("API routes", { skip: skipWithoutDatabase }, () => {
+  let close: () => Promise<void>;
+  let endPool: () => Promise<void>;
+  let baseUrl: string;
+  let tutorId: string;
+  let storage: Awaited<ReturnType<typeof setupTestDatabase>>["storage"];
+
+  before(async () => {
+    const setup = await setupTestDatabase();
+    storage = setup.storage;
+    endPool = () => setup.pool.end();
+
+    const hashed = await bcrypt.hash(PASSWORD, 4);
+    const createUser = async (username: string) => {
+      const user = await storage.createUser({ username, password: hashed, email: `${username}@example.com`, fullName: username });
+      return (await storage.updateUser(user.id, { emailVerifiedAt: new Date() }))!;
+    };
+    const tutor = await createUser("tutor");
+    const learner = await createUser("learner");
+    const admin = await createUser("admin");
+    await storage.updateUser(admin.id, { role: "super_admin" });
+    // So there are 2FA secrets to leak
+    await storage.updateUser(tutor.id, {
+      totpSecret: TOTP_SECRET,
+      totpEnabledAt: new Date(),
+      totpRecoveryCodes: ["not-a-real-hash"],
+    });
+    tutorId = tutor.id;
+
+    const skill = await storage.createSkill({ userId: tutor.id, name: "Calculus", category: "mathematics", type: "offering" });
+    await storage.setSkillTags(skill.id, [{ slug: "derivatives", name: "Derivatives" }]);
+    const session = await storage.createSession({
+      requesterId: learner.id,
+      providerId: tutor.id,
+      skillId: skill.id,
+      skillRevision: skill.revision,
+      message: "Help with limits",
+    });
+    await storage.updateSession(session!.id, { status: "completed" });
+    await storage.createReview({ sessionId: session!.id, reviewerId: learner.id, revieweeId: tutor.id, rating: 5, comment: "Great" });
+
+    ({ baseUrl, close } = await startTestServer());
+  });
+
+  after(async () => {
+    await close?.();
+    await endPool?.();
+  });
+
+  const assertOk = (response: TestResponse, path: string) => {
+    assert.equal(response.status, 200, `${path} returned ${response.status}`);
+  };
+  // For responses about the signed-in user, or for admins
+  const assertNoSecrets = (response: TestResponse, path: string) => {
+    assertOk(response, path);
+    assert.deepEqual(fieldsMatching(response.body, isSecretField), [], `${path} leaked a secret field`);
+  };
+  // For responses about other people
+  const assertPublic = (response: TestResponse, path: string) => {
+    assertOk(response, path);
+    assert.deepEqual(fieldsMatching(response.body, isPrivateField), [], `${path} leaked a private field`);
+  };
+  const lengthOf = (body: unknown) => {
+    assert.ok(Array.isArray(body), "expected a list");
+    return body.length;
+  };
+
+  describe("responses leave out passwords, and emails and 2FA secrets where public", () => {
+    it("leaves them out of search results", async () => {
+      const agent = new TestAgent(baseUrl);
+      for (const path of ["/api/search", "/api/search?q=calc", "/api/search?sort=rating", "/api/tags/derivatives"]) {
+        const response = await agent.get(path);
+        assertPublic(response, path);
+        assert.ok(lengthOf((response.body as { skills: unknown }).skills) > 0, `${path} found no skills`);
+      }
+    });
+
+    it("leaves them out of sessions for both people", async () => {
+      for (const username of ["learner", "tutor"]) {
+        const agent = new TestAgent(baseUrl);
+        const login = await agent.login(username, PASSWORD);
+        if ((login.body as { twoFactorRequired?: boolean }).twoFactorRequired) {
+          assertOk(await agent.post("/api/auth/login/2fa", { code: generateTotp(TOTP_SECRET) }), "/api/auth/login/2fa");
+        }
+        const response = await agent.get("/api/sessions/my");
+        assertPublic(response, "/api/sessions/my");
+        assert.equal(lengthOf(response.body), 1);
+      }
+    });
+
+    it("leaves them out of reviews and profiles", async () => {
+      const agent = new TestAgent(baseUrl);
+      const reviews = await agent.get(`/api/reviews/${tutorId}`);
+      assertPublic(reviews, "/api/reviews/:userId");
+      assert.equal(lengthOf(reviews.body), 1);
+      assertPublic(await agent.get("/api/users/tutor"), "/api/users/:username");
+    });
+
+    it("leaves passwords and 2FA secrets out of the signed-in user and the admin routes", async () => {
+      const agent = new TestAgent(baseUrl);
+      assertNoSecrets(await agent.login("admin", PASSWORD), "/api/auth/login");
+      assertNoSecrets(await agent.get("/api/auth/me"), "/api/auth/me");
+      const users = await agent.get("/api/admin/users");
+      assertNoSecrets(users, "/api/admin/users");
+      assert.equal(lengthOf(users.body), 3);
+      assertNoSecrets(await agent.get("/api/admin/stats"), "/api/admin/stats");
+    });
+  });
+
+  describe("middleware", () => {
+    it("answers with a 500 when the database fails during an access check", async () => {
+      const learner = new TestAgent(baseUrl);
+      await learner.login("learner", PASSWORD);
+      const admin = new TestAgent(baseUrl);
+      await admin.login("admin", PASSWORD);
+
+      const getUser = mock.method(storage, "getUser", async () => {
+        throw new Error("Connection terminated unexpectedly");
+      });
+      try {
+        // requireVerified, then requirePermission
+        const request = await learner.post("/api/sessions/request", { skillId: "any", providerId: tutorId });
+        assert.equal(request.status, 500);
+        assert.equal((await admin.get("/api/admin/users")).status, 500);
+      } finally {
+        getUser.mock.restore();
+      }
+      assertOk(await admin.get("/api/admin/users"), "/api/admin/users");
+    });
+  });
+});
@@ -1,14 +1,103 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import session from "express-session";
-import { storage } from "./storage";
+import connectPgSimple from "connect-pg-simple";
+import { storage, type SkillSearchOptions, type SkillSearchCursor } from "./storage";
+import { pool } from "./db";
+import {
+  toSafeUser,
+  toPublicUser,
+  type User,
+  type ActiveSession,
+  type PublicProfile,
+  type UserStats,
+  type UserBadge,
+  type AvailabilitySchedule,
+  type UserAvailability,
+  type Skill,
+  type SkillWithTags,
+  type SkillWithEvidence,
+  type TagListing,
+  type SkillSearchPage,
+  type SkillSort,
+  SKILL_SORTS,
+  type TagInfo,
+  type Category,
+  type InsertSkill,
+  type SkillImportRow,
+  type SkillImportReport,
+  SESSION_SLOT_MINUTES,
+} from "@shared/schema";
+import { isValidTimeZone } from "@shared/time";
+import { CATEGORY_ICONS, CATEGORY_COLORS, slugify } from "@shared/categories";
+import { MAX_TAGS_PER_SKILL, canonicalTag, canonicalTags } from "@shared/tags";
+import {
+  EXPERIENCE_LEVELS,
+  EVIDENCE_KINDS,
+  MAX_YEARS_EXPERIENCE,
+  MAX_EVIDENCE_PER_SKILL,
+  ENDORSEMENTS_TO_VERIFY,
+} from "@shared/proficiency";
+import { ROLES, API_TOKEN_SCOPES, hasPermission, canManageUser, assignableRoles, type Permission } from "@shared/permissions";
+import { mailer } from "./mail";
+import { generateToken, hashToken } from "./tokens";
+import { createRateLimitStore, rateLimit, LoginThrottle, lockoutMessage } from "./rateLimit";
+import { config } from "./config";
+import { csrfProtection, issueCsrfToken } from "./security";
+import { apiTokenAuth, requireScope, isUnscopedTokenRequest, generateApiToken, toApiTokenInfo } from "./apiTokens";
+import {
+  createLoginState,
+  buildAuthorizationUrl,
+  completeLogin,
+  isEmailVerified,
+  OidcError,
+  type IdTokenClaims,
+  type OidcLoginState,
+} from "./oidc";
+import {
+  collectUserData,
+  countRows,
+  buildExportZip,
+  exportFileName,
+  queueExport,
+  pruneExpiredExports,
+  deleteUserExports,
+  toExportInfo,
+  SYNC_EXPORT_ROW_LIMIT,
+} from "./dataExport";
+import { SKILL_IMPORT_FORMATS, SkillImportError, parseSkillImport, exportSkills } from "./skillImport";
+import {
+  generateTotpSecret,
+  verifyTotp,
+  totpAuthUrl,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from "./totp";
+import { fileStorage, UPLOADS_PATH } from "./fileStorage";
+import { saveAvatar, deleteAvatar, InvalidImageError, MAX_AVATAR_BYTES, AVATAR_MIME_TYPES } from "./avatars";
+import { getBookableSlots, isBookableSlot, bookingRange } from "./availability";
 import bcrypt from "bcrypt";
+import multer from "multer";
+import QRCode from "qrcode";
 import { z } from "zod";
 
 // Session user type
 declare module "express-session" {
   interface SessionData {
     userId: string;
+    // Set after a correct password for an account with 2FA, until the code is entered
+    pendingTwoFactorUserId: string;
+    pendingTwoFactorAttempts: number;
+    // Secret shown during 2FA enrollment, saved to the user once a code is confirmed
+    pendingTotpSecret: string;
+    // PKCE verifier, state and nonce for a single sign-on attempt in progress
+    oidcLogin: OidcLoginState;
+    csrfToken: string;
+    // Device details for the active sessions list
+    userAgent: string;
+    ip: string;
+    createdAt: string;
+    lastSeenAt: string;
   }
 }
 
@@ -18,6 +107,8 @@ const registerSchema = z.object({
   password: z.string().min(8),
   email: z.string().email(),
   fullName: z.string().min(2),
+  // Detected by the browser; ignored if the server doesn't recognise it
+  timeZone: z.string().optional(),
 });
 
 const loginSchema = z.object({
@@ -25,170 +116,1540 @@ const loginSchema = z.object({
   password: z.string(),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8),
+});
+
+const updateMeSchema = z.object({
+  username: registerSchema.shape.username.optional(),
+  fullName: registerSchema.shape.fullName.optional(),
+  bio: z.string().max(500).nullable().optional(),
+  timeZone: z.string().refine(isValidTimeZone, { message: "Unknown time zone" }).nullable().optional(),
+  email: z.string().email().optional(),
+  newPassword: z.string().min(8).optional(),
+  // Required when changing email or password
+  currentPassword: z.string().optional(),
+});
+
+const deleteMeSchema = z.object({
+  password: z.string(),
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().min(1),
+});
+
+const disableTwoFactorSchema = z.object({
+  password: z.string(),
+  code: z.string().min(1),
+});
+
+const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+const updateRoleSchema = z.object({
+  role: z.enum(ROLES),
+});
+
+const adminSettingsSchema = z.object({
+  requireAdmin2fa: z.boolean(),
+});
+
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000; // avoid a session write on every request
+const REQUIRE_ADMIN_2FA_SETTING = "require_admin_2fa";
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const PROFILE_REVIEW_LIMIT = 5;
+
 const skillSchema = z.object({
   name: z.string().min(2),
   description: z.string().optional(),
   category: z.string().min(1),
   type: z.enum(["offering", "seeking"]),
-  experienceLevel: z.string().optional(),
+  experienceLevel: z.enum(EXPERIENCE_LEVELS).nullable().optional(),
+  yearsExperience: z.number().int().min(0).max(MAX_YEARS_EXPERIENCE).nullable().optional(),
+  // Free text; canonicalized into tags on save
+  tags: z.array(z.string().max(50)).max(MAX_TAGS_PER_SKILL).optional(),
+});
+
+// Edits use the same rules as creation, for whichever fields are sent
+const updateSkillSchema = skillSchema.partial().refine((data) => Object.keys(data).length > 0, {
+  message: "Nothing to update",
+});
+
+const skillImportSchema = z.object({
+  format: z.enum(SKILL_IMPORT_FORMATS),
+  content: z.string().min(1),
+  dryRun: z.boolean().default(false),
+});
+
+const skillExportSchema = z.object({
+  format: z.enum(SKILL_IMPORT_FORMATS).default("csv"),
+});
+
+const skillEvidenceSchema = z.object({
+  kind: z.enum(EVIDENCE_KINDS),
+  title: z.string().trim().min(1).max(100),
+  url: z.string().url().max(500).refine((url) => /^https?:\/\//i.test(url), { message: "Links must start with http:// or https://" }),
+});
+
+const MAX_SEARCH_PAGE_SIZE = 50;
+
+const searchPageSchema = z.object({
+  sort: z.enum(SKILL_SORTS).default("relevance"),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).default(20),
+  cursor: z.string().max(500).optional(),
+});
+
+const skillSearchSchema = searchPageSchema.extend({
+  q: z.string().trim().max(100).optional(),
+  category: z.string().optional(),
+  type: z.enum(["offering", "seeking"]).optional(),
+  excludeUserId: z.string().optional(),
+});
+
+const tagSearchSchema = z.object({
+  q: z.string().max(50).default(""),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  icon: z.enum(CATEGORY_ICONS),
+  color: z.enum(CATEGORY_COLORS),
+  parentId: z.string().nullable().optional(),
+  sortOrder: z.number().int().min(0).max(1000).optional(),
+});
+
+const updateCategorySchema = categorySchema.partial().refine((data) => Object.keys(data).length > 0, {
+  message: "Nothing to update",
 });
 
 const sessionRequestSchema = z.object({
   skillId: z.string(),
   providerId: z.string(),
   message: z.string().optional(),
+  // One of the slots from GET /api/users/:id/availability
+  scheduledAt: z.string().datetime({ offset: true }).optional(),
 });
 
+const availabilityWindowSchema = z
+  .object({
+    weekday: z.number().int().min(0).max(6),
+    startMinute: z.number().int().min(0).max(24 * 60),
+    endMinute: z.number().int().min(0).max(24 * 60),
+  })
+  .refine((w) => w.endMinute - w.startMinute >= SESSION_SLOT_MINUTES, {
+    message: `Each window must fit at least one ${SESSION_SLOT_MINUTES}-minute session`,
+  });
+
+const updateAvailabilitySchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, { message: "Unknown time zone" }),
+  windows: z.array(availabilityWindowSchema).max(50),
+});
+
+const availabilityExceptionSchema = z.object({
+  date: z.string().date(),
+  reason: z.string().trim().max(200).nullable().optional(),
+});
+
+const availabilityQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+// Base URL used in links we email out
+function appUrl(req: Request) {
+  return config.appUrl || `${req.protocol}://${req.get("host")}`;
+}
+
+async function sendVerificationEmail(req: Request, user: User) {
+  const token = generateToken();
+  await storage.createEmailVerificationToken(
+    user.id,
+    user.email,
+    hashToken(token),
+    new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+  );
+
+  const link = `${appUrl(req)}/verify-email?token=${encodeURIComponent(token)}`;
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your SkillSwap email",
+    text: `Hi ${user.fullName},\n\nPlease confirm your email address by opening the link below. It expires in 24 hours.\n\n${link}`,
+  });
+}
+
+// True when `user` is the only account left that can change roles, so
+// removing or demoting them would leave nobody able to appoint staff
+async function isLastRoleManager(user: User) {
+  if (!hasPermission(user.role, "users.role")) {
+    return false;
+  }
+  const managers = (await storage.getAllUsers()).filter((u) => hasPermission(u.role, "users.role"));
+  return managers.length <= 1;
+}
+
+// Subcategories are one level deep: a parent must be top-level, and a
+// category that has subcategories can't become one itself
+async function categoryParentError(parentId: string, categoryId?: string): Promise<string | undefined> {
+  const all = await storage.getCategories();
+  const parent = all.find((c) => c.id === parentId);
+  if (!parent || parent.id === categoryId) {
+    return "Parent category not found";
+  }
+  if (parent.parentId) {
+    return "Subcategories can't have subcategories of their own";
+  }
+  if (categoryId && all.some((c) => c.parentId === categoryId)) {
+    return "A category with subcategories can't be moved under another";
+  }
+  return undefined;
+}
+
+// A category's slug plus its subcategories', so filtering by a top-level
+// category also finds skills filed under its subcategories
+async function categoryFilter(slug: string): Promise<string[]> {
+  const all = await storage.getCategories();
+  const selected = all.find((c) => c.slug === slug);
+  if (!selected) {
+    return [slug];
+  }
+  return [selected.slug, ...all.filter((c) => c.parentId === selected.id).map((c) => c.slug)];
+}
+
+async function withTags(skills: Skill[]): Promise<SkillWithTags[]> {
+  const tagsBySkill = await storage.getTagsForSkills(skills.map((s) => s.id));
+  return skills.map((skill) => ({ ...skill, tags: tagsBySkill.get(skill.id) ?? [] }));
+}
+
+async function withEvidence(skills: SkillWithTags[]): Promise<SkillWithEvidence[]> {
+  const evidenceBySkill = await storage.getEvidenceForSkills(skills.map((s) => s.id));
+  return skills.map((skill) => ({ ...skill, evidence: evidenceBySkill.get(skill.id) ?? [] }));
+}
+
+// Category slugs by slug and by lower-case name, so imports can use either
+function categoryLookup(all: Category[]) {
+  const slugs = new Map<string, string>();
+  for (const category of all) {
+    slugs.set(category.slug, category.slug);
+    slugs.set(category.name.toLowerCase(), category.slug);
+  }
+  return (text: string) => slugs.get(text.trim().toLowerCase()) ?? slugs.get(slugify(text));
+}
+
+// Two skills are the same if they have the same name, ignoring case, and type
+function skillKey(skill: Pick<Skill, "name" | "type">) {
+  return `${skill.type}:${skill.name.trim().toLowerCase()}`;
+}
+
+// Search cursors are opaque to clients. They name the sort they belong to, so
+// one can't be reused after switching sorts.
+function encodeSearchCursor(sort: SkillSort, after: SkillSearchCursor): string {
+  return Buffer.from(JSON.stringify([sort, after.value, after.id])).toString("base64url");
+}
+
+function decodeSearchCursor(sort: SkillSort, cursor: string): SkillSearchCursor | undefined {
+  try {
+    const [cursorSort, value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (cursorSort === sort && typeof value === "string" && typeof id === "string") {
+      return { value, id };
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+// One page of a search; undefined when the cursor isn't one we handed out
+async function searchSkillsPage(
+  page: z.infer<typeof searchPageSchema>,
+  filters: Omit<SkillSearchOptions, "sort" | "limit" | "after">,
+): Promise<SkillSearchPage | undefined> {
+  const after = page.cursor ? decodeSearchCursor(page.sort, page.cursor) : undefined;
+  if (page.cursor && !after) {
+    return undefined;
+  }
+
+  const result = await storage.searchSkills({ ...filters, sort: page.sort, limit: page.limit, after });
+  return {
+    skills: result.skills,
+    total: result.total,
+    nextCursor: result.next ? encodeSearchCursor(page.sort, result.next) : null,
+  };
+}
+
+// Canonical slugs from ?tag=a&tag=b, for filtering
+function tagQuery(value: unknown): string[] | undefined {
+  const values = (Array.isArray(value) ? value : [value]).filter((v): v is string => typeof v === "string");
+  const slugs = canonicalTags(values).map((t) => t.slug);
+  return slugs.length > 0 ? slugs : undefined;
+}
+
+function isStaff(user: User) {
+  return hasPermission(user.role, "admin.access");
+}
+
+async function isAdminTwoFactorRequired() {
+  return (await storage.getSetting(REQUIRE_ADMIN_2FA_SETTING)) === "true";
+}
+
+// Checks a TOTP code or, failing that, an unused recovery code. Successful
+// codes are burned so they can't be replayed.
+async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.totpSecret, code);
+  if (step !== null) {
+    if (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep) {
+      return false;
+    }
+    await storage.updateUser(user.id, { totpLastUsedStep: step });
+    return true;
+  }
+
+  const codeHash = hashToken(normalizeRecoveryCode(code));
+  const remaining = user.totpRecoveryCodes ?? [];
+  if (remaining.includes(codeHash)) {
+    await storage.updateUser(user.id, { totpRecoveryCodes: remaining.filter((c) => c !== codeHash) });
+    return true;
+  }
+
+  return false;
+}
+
+// Starts a fresh login session (new id, so a pre-login cookie can't be fixated)
+// and records the device it came from.
+async function startUserSession(req: Request, userId: string) {
+  // Keep the CSRF token so the client's cached copy stays valid
+  const csrfToken = req.session.csrfToken;
+  await new Promise<void>((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve()));
+  });
+
+  const now = new Date().toISOString();
+  if (csrfToken) {
+    req.session.csrfToken = csrfToken;
+  }
+  req.session.userId = userId;
+  req.session.userAgent = req.get("user-agent") || "";
+  req.session.ip = req.ip || "";
+  req.session.createdAt = now;
+  req.session.lastSeenAt = now;
+}
+
+function oidcRedirectUri(req: Request) {
+  return `${appUrl(req)}/api/auth/oidc/callback`;
+}
+
+// Picks a free username based on what the identity provider calls the user
+async function usernameFromClaims(claims: IdTokenClaims) {
+  const source = claims.preferred_username || claims.email?.split("@")[0] || "student";
+  const base = source.toLowerCase().replace(/[^a-z0-9_]/g, "").slice(0, 14).padEnd(3, "0");
+  if (!(await storage.getUserByUsername(base))) {
+    return base;
+  }
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = `${base}${Math.floor(100000 + Math.random() * 900000)}`;
+    if (!(await storage.getUserByUsername(candidate))) {
+      return candidate;
+    }
+  }
+  throw new OidcError("Could not pick a username");
+}
+
+// Finds the user an identity provider login belongs to: a previously linked
+// identity, then an existing account with the same verified email, then a new
+// account. Returns an error code for the login page otherwise.
+async function resolveOidcUser(issuer: string, claims: IdTokenClaims): Promise<User | "email_unverified" | "link_unverified"> {
+  const identity = await storage.getUserIdentity(issuer, claims.sub);
+  if (identity) {
+    await storage.updateUserIdentity(identity.id, { lastLoginAt: new Date() });
+    const user = await storage.getUser(identity.userId);
+    if (user) {
+      return user;
+    }
+  }
+
+  if (!claims.email || !isEmailVerified(claims)) {
+    return "email_unverified";
+  }
+
+  let user = await storage.getUserByEmail(claims.email);
+  if (user && !user.emailVerifiedAt) {
+    // Anyone can sign up with an address they don't own, so only link accounts
+    // that have proven it
+    return "link_unverified";
+  }
+  if (!user) {
+    user = await storage.createUser({
+      username: await usernameFromClaims(claims),
+      // Unguessable; the user can set a real one through "forgot password"
+      password: await bcrypt.hash(generateToken(), 10),
+      email: claims.email,
+      fullName: claims.name || claims.preferred_username || claims.email.split("@")[0],
+      timeZone: claims.zoneinfo && isValidTimeZone(claims.zoneinfo) ? claims.zoneinfo : null,
+    });
+    user = (await storage.updateUser(user.id, { emailVerifiedAt: new Date() }))!;
+  }
+
+  await storage.createUserIdentity({ userId: user.id, issuer, subject: claims.sub, email: claims.email });
+  return user;
+}
+
+async function getUserStats(userId: string): Promise<UserStats> {
+  const [skills, sessions, reviews] = await Promise.all([
+    storage.getSkillsByUserId(userId),
+    storage.getSessionsByUserId(userId),
+    storage.getReviewsByUserId(userId),
+  ]);
+
+  const completedSessions = sessions.filter((s) => s.status === "completed").length;
+  const offeringSkills = skills.filter((s) => s.type === "offering").length;
+  const averageRating = reviews.length > 0 
+    ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length 
+    : 0;
+
+  const badges: UserBadge[] = [];
+  if (completedSessions >= 5) badges.push("top_tutor");
+  if (offeringSkills >= 3) badges.push("skill_master");
+  if (skills.length >= 1) badges.push("getting_started");
+  if (averageRating >= 4.5 && reviews.length >= 3) badges.push("highly_rated");
+
+  return {
+    completedSessions,
+    offeringSkills,
+    seekingSkills: skills.filter((s) => s.type === "seeking").length,
+    averageRating,
+    reviewCount: reviews.length,
+    badges,
+  };
+}
+
+// Public handle for a login session; the raw sid is effectively a credential
+function sessionHandle(sid: string) {
+  return hashToken(sid).slice(0, 32);
+}
+
+// Error handler wrapper, for route handlers and middleware
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<unknown>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch((error) => {
+      console.error("API Error:", error);
+      res.status(500).json({ message: "An error occurred. Please try again." });
+    });
+  };
+
 // Auth middleware
 function requireAuth(req: Request, res: Response, next: NextFunction) {
   if (!req.session.userId) {
     return res.status(401).json({ message: "Unauthorized" });
   }
+  if (isUnscopedTokenRequest(req, res)) {
+    return tokenNotAllowed(res);
+  }
   next();
 }
 
-async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+function tokenNotAllowed(res: Response) {
+  return res.status(403).json({ message: "API tokens can't be used for this endpoint", code: "TOKEN_NOT_ALLOWED" });
+}
+
+// Unverified accounts can browse but not contact other users
+const requireVerified = asyncHandler(async (req, res, next) => {
   if (!req.session.userId) {
     return res.status(401).json({ message: "Unauthorized" });
   }
+  if (isUnscopedTokenRequest(req, res)) {
+    return tokenNotAllowed(res);
+  }
   const user = await storage.getUser(req.session.userId);
-  if (!user?.isAdmin) {
-    return res.status(403).json({ message: "Forbidden" });
+  if (!user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (!user.emailVerifiedAt) {
+    return res.status(403).json({ message: "Please verify your email address first", code: "EMAIL_NOT_VERIFIED" });
   }
   next();
+});
+
+// Allows the request through when the user's role grants `permission`. Staff
+// roles are also held to the admin 2FA policy.
+function requirePermission(permission: Permission) {
+  return asyncHandler(async (req, res, next) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (isUnscopedTokenRequest(req, res)) {
+      return tokenNotAllowed(res);
+    }
+    const user = await storage.getUser(req.session.userId);
+    if (!user || !hasPermission(user.role, permission)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    if (isStaff(user) && !user.totpEnabledAt && await isAdminTwoFactorRequired()) {
+      return res.status(403).json({
+        message: "Two-factor authentication is required for staff accounts",
+        code: "TWO_FACTOR_REQUIRED",
+      });
+    }
+    next();
+  });
 }
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  // Session middleware
+  // Session middleware, persisted in Postgres so logins survive restarts and are
+  // shared across instances
+  const uploads = fileStorage.staticHandler();
+  if (uploads) {
+    app.use(UPLOADS_PATH, uploads);
+  }
+
+  const PgSessionStore = connectPgSimple(session);
+  app.use("/api", apiTokenAuth);
   app.use(
     session({
-      secret: process.env.SESSION_SECRET || "skillswap-secret-key-change-in-production",
+      store: new PgSessionStore({ pool, tableName: "user_sessions" }),
+      secret: config.sessionSecret,
       resave: false,
       saveUninitialized: false,
       cookie: {
-        secure: false,
+        secure: config.secureCookies,
         httpOnly: true,
+        sameSite: "lax",
         maxAge: 24 * 60 * 60 * 1000, // 24 hours
       },
     })
   );
 
-  // Error handler wrapper
-  const asyncHandler = (fn: (req: Request, res: Response) => Promise<void>) => 
-    (req: Request, res: Response, next: NextFunction) => {
-      Promise.resolve(fn(req, res)).catch((error) => {
-        console.error("API Error:", error);
-        res.status(500).json({ message: "An error occurred. Please try again." });
-      });
-    };
+  app.use("/api", csrfProtection);
+
+  app.use((req, _res, next) => {
+    if (req.session.userId) {
+      const lastSeen = req.session.lastSeenAt ? Date.parse(req.session.lastSeenAt) : 0;
+      if (Date.now() - lastSeen > LAST_SEEN_RESOLUTION_MS) {
+        req.session.lastSeenAt = new Date().toISOString();
+        req.session.ip = req.ip || "";
+      }
+    }
+    next();
+  });
+
+  // Rate limits. Buckets are per IP and, where there is one, per account.
+  const rateLimitStore = createRateLimitStore();
+  const loginThrottle = new LoginThrottle(rateLimitStore, {
+    threshold: 5,
+    failureWindowMs: HOUR_MS,
+    baseLockMs: MINUTE_MS,
+    maxLockMs: HOUR_MS,
+  });
+  const byIp = (req: Request) => req.ip;
+  const bodyField = (field: string) => (req: Request) =>
+    typeof req.body?.[field] === "string" ? req.body[field].toLowerCase() : undefined;
+
+  const loginLimits = [
+    rateLimit(rateLimitStore, { name: "login-ip", windowMs: 15 * MINUTE_MS, max: 20, key: byIp }),
+    loginThrottle.guard(bodyField("username")),
+  ];
+  const twoFactorLoginLimit = rateLimit(rateLimitStore, {
+    name: "login-2fa-ip", windowMs: 15 * MINUTE_MS, max: 20, key: byIp,
+  });
+  const oidcLoginLimit = rateLimit(rateLimitStore, {
+    name: "login-oidc-ip", windowMs: 15 * MINUTE_MS, max: 20, key: byIp,
+  });
+  const registerLimit = rateLimit(rateLimitStore, {
+    name: "register-ip", windowMs: HOUR_MS, max: 10, key: byIp,
+  });
+  const forgotPasswordLimits = [
+    rateLimit(rateLimitStore, { name: "forgot-password-ip", windowMs: HOUR_MS, max: 10, key: byIp }),
+    rateLimit(rateLimitStore, { name: "forgot-password-email", windowMs: HOUR_MS, max: 3, key: bodyField("email") }),
+  ];
+  const sessionRequestLimits = [
+    rateLimit(rateLimitStore, {
+      name: "session-request-user",
+      windowMs: DAY_MS,
+      max: 20,
+      key: (req) => req.session.userId,
+      message: "You've sent a lot of session requests today. Please try again tomorrow.",
+    }),
+    rateLimit(rateLimitStore, {
+      name: "session-request-pair",
+      windowMs: DAY_MS,
+      max: 3,
+      key: (req) => typeof req.body?.providerId === "string" ? `${req.session.userId}:${req.body.providerId}` : undefined,
+      message: "You've already sent this tutor several requests today.",
+    }),
+  ];
+
+  const exportLimit = rateLimit(rateLimitStore, {
+    name: "data-export-user", windowMs: HOUR_MS, max: 10, key: (req) => req.session.userId,
+  });
+  const endorsementLimit = rateLimit(rateLimitStore, {
+    name: "endorsement-user",
+    windowMs: DAY_MS,
+    max: 10,
+    key: (req) => req.session.userId,
+    message: "You've endorsed a lot of skills today. Please try again tomorrow.",
+  });
+  const skillImportLimit = rateLimit(rateLimitStore, {
+    name: "skill-import-user", windowMs: HOUR_MS, max: 30, key: (req) => req.session.userId,
+  });
+  const avatarLimit = rateLimit(rateLimitStore, {
+    name: "avatar-upload-user", windowMs: HOUR_MS, max: 20, key: (req) => req.session.userId,
+  });
+
+  // Avatars are held in memory just long enough to validate and resize them
+  const avatarUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_AVATAR_BYTES, files: 1 },
+    fileFilter: (_req, file, cb) => cb(null, AVATAR_MIME_TYPES.includes(file.mimetype)),
+  }).single("avatar");
+
+  const parseAvatarUpload = (req: Request, res: Response, next: NextFunction) => {
+    avatarUpload(req, res, (err) => {
+      if (err instanceof multer.MulterError) {
+        const message = err.code === "LIMIT_FILE_SIZE"
+          ? `Avatars must be ${MAX_AVATAR_BYTES / (1024 * 1024)} MB or smaller`
+          : "Invalid upload";
+        return res.status(400).json({ message });
+      }
+      next(err);
+    });
+  };
+
+  // Auth routes
+  app.get("/api/auth/csrf", (req, res) => {
+    res.json({ csrfToken: issueCsrfToken(req) });
+  });
+
+  app.post("/api/auth/register", registerLimit, asyncHandler(async (req, res) => {
+    const result = registerSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+
+    const { username, password, email, fullName, timeZone } = result.data;
+
+    // Check if user exists
+    const existingUsername = await storage.getUserByUsername(username);
+    if (existingUsername) {
+      return res.status(400).json({ message: "Username already taken" });
+    }
+
+    const existingEmail = await storage.getUserByEmail(email);
+    if (existingEmail) {
+      return res.status(400).json({ message: "Email already registered" });
+    }
+
+    // Hash password
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // Create user
+    const user = await storage.createUser({
+      username,
+      password: hashedPassword,
+      email,
+      fullName,
+      timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : null,
+    });
+
+    // A mail outage shouldn't block sign-up; the user can resend from the dashboard
+    await sendVerificationEmail(req, user).catch((error) => {
+      console.error("Verification email failed:", error);
+    });
+
+    await startUserSession(req, user.id);
+
+    res.status(201).json({ user: toSafeUser(user) });
+  }));
+
+  app.post("/api/auth/login", ...loginLimits, asyncHandler(async (req, res) => {
+    const result = loginSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input" });
+    }
+
+    const { username, password } = result.data;
+
+    const user = await storage.getUserByUsername(username);
+    const validPassword = user ? await bcrypt.compare(password, user.password) : false;
+    if (!user || !validPassword) {
+      // Unknown usernames count too, so lockouts don't reveal which accounts exist
+      const lockedUntil = await loginThrottle.recordFailure(username, req.ip || "");
+      if (lockedUntil) {
+        res.setHeader("Retry-After", String(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)));
+        return res.status(429).json({ message: lockoutMessage(lockedUntil) });
+      }
+      return res.status(401).json({ message: "Invalid username or password" });
+    }
+
+    // The failure count is only cleared once the user is fully signed in, so
+    // logging in again doesn't buy a fresh set of 2FA guesses
+    if (user.totpEnabledAt) {
+      req.session.pendingTwoFactorUserId = user.id;
+      req.session.pendingTwoFactorAttempts = 0;
+      return res.json({ twoFactorRequired: true });
+    }
+
+    await loginThrottle.recordSuccess(username, req.ip || "");
+    await startUserSession(req, user.id);
+
+    res.json({ user: toSafeUser(user) });
+  }));
+
+  app.post("/api/auth/login/2fa", twoFactorLoginLimit, asyncHandler(async (req, res) => {
+    const result = twoFactorCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input" });
+    }
+
+    const pendingUserId = req.session.pendingTwoFactorUserId;
+    if (!pendingUserId) {
+      return res.status(401).json({ message: "Please log in again" });
+    }
+
+    const user = await storage.getUser(pendingUserId);
+    if (!user || !(await verifySecondFactor(user, result.data.code))) {
+      if (user) {
+        await loginThrottle.recordFailure(user.username, req.ip || "");
+      }
+      const attempts = (req.session.pendingTwoFactorAttempts ?? 0) + 1;
+      if (attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+        delete req.session.pendingTwoFactorUserId;
+        delete req.session.pendingTwoFactorAttempts;
+        return res.status(401).json({ message: "Too many attempts. Please log in again." });
+      }
+      req.session.pendingTwoFactorAttempts = attempts;
+      return res.status(401).json({ message: "Invalid authentication code" });
+    }
+
+    await loginThrottle.recordSuccess(user.username, req.ip || "");
+    await startUserSession(req, user.id);
+
+    res.json({ user: toSafeUser(user) });
+  }));
+
+  // Single sign-on through the configured OpenID Connect provider
+  app.get("/api/auth/oidc", (req, res) => {
+    res.json({ enabled: !!config.oidc, providerName: config.oidc?.providerName ?? null });
+  });
+
+  app.get("/api/auth/oidc/login", oidcLoginLimit, asyncHandler(async (req, res) => {
+    if (!config.oidc) {
+      return res.status(404).json({ message: "Single sign-on is not configured" });
+    }
+
+    const login = createLoginState();
+    req.session.oidcLogin = login;
+    const url = await buildAuthorizationUrl(config.oidc, login, oidcRedirectUri(req));
+    req.session.save((err) => {
+      if (err) {
+        return res.redirect("/login?sso_error=failed");
+      }
+      res.redirect(url);
+    });
+  }));
+
+  app.get("/api/auth/oidc/callback", oidcLoginLimit, asyncHandler(async (req, res) => {
+    const login = req.session.oidcLogin;
+    delete req.session.oidcLogin;
+
+    const { code, state, error } = req.query;
+    if (!config.oidc || !login) {
+      return res.redirect("/login?sso_error=failed");
+    }
+    if (error === "access_denied") {
+      return res.redirect("/login?sso_error=cancelled");
+    }
+    if (typeof code !== "string" || typeof state !== "string" || state !== login.state) {
+      return res.redirect("/login?sso_error=failed");
+    }
+
+    let claims: IdTokenClaims;
+    try {
+      claims = await completeLogin(config.oidc, login, code, oidcRedirectUri(req));
+    } catch (err) {
+      console.error("Single sign-on failed:", err);
+      return res.redirect("/login?sso_error=failed");
+    }
+
+    const user = await resolveOidcUser(claims.iss, claims);
+    if (typeof user === "string") {
+      return res.redirect(`/login?sso_error=${user}`);
+    }
+
+    // The provider vouches for the password step only; local 2FA still applies
+    if (user.totpEnabledAt) {
+      req.session.pendingTwoFactorUserId = user.id;
+      req.session.pendingTwoFactorAttempts = 0;
+      return req.session.save(() => res.redirect("/login?two_factor=1"));
+    }
+
+    await startUserSession(req, user.id);
+    req.session.save(() => res.redirect("/dashboard"));
+  }));
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Could not log out" });
+      }
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  app.get("/api/auth/me", requireScope("read:profile"), asyncHandler(async (req, res) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    const user = await storage.getUser(req.session.userId);
+    if (!user) {
+      return res.status(401).json({ message: "User not found" });
+    }
+
+    res.json({ user: toSafeUser(user) });
+  }));
+
+  app.post("/api/auth/forgot-password", ...forgotPasswordLimits, asyncHandler(async (req, res) => {
+    const result = forgotPasswordSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input" });
+    }
+
+    // Respond the same way whether or not the email is registered
+    const response = { message: "If that email is registered, a reset link has been sent." };
+
+    const user = await storage.getUserByEmail(result.data.email);
+    if (!user) {
+      return res.json(response);
+    }
+
+    const token = generateToken();
+    await storage.createPasswordResetToken(user.id, hashToken(token), new Date(Date.now() + PASSWORD_RESET_TTL_MS));
+
+    const link = `${appUrl(req)}/reset-password?token=${encodeURIComponent(token)}`;
+    // A failure is logged, not reported, or it would reveal that the address is registered
+    await mailer.send({
+      to: user.email,
+      subject: "Reset your SkillSwap password",
+      text: `Hi ${user.fullName},\n\nUse the link below to choose a new password. It expires in 1 hour and can only be used once.\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+    }).catch((error) => {
+      console.error("Password reset email failed:", error);
+    });
+
+    res.json(response);
+  }));
+
+  app.post("/api/auth/reset-password", asyncHandler(async (req, res) => {
+    const result = resetPasswordSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+
+    const token = await storage.consumePasswordResetToken(hashToken(result.data.token));
+    if (!token) {
+      return res.status(400).json({ message: "This reset link is invalid or has expired" });
+    }
+
+    const hashedPassword = await bcrypt.hash(result.data.password, 10);
+    await storage.updateUser(token.userId, { password: hashedPassword });
+    // Anyone who was signed in with the old password is signed out
+    await storage.deleteUserSessions(token.userId);
+
+    res.json({ message: "Password updated. You can now log in." });
+  }));
+
+  app.post("/api/auth/verify-email", asyncHandler(async (req, res) => {
+    const result = verifyEmailSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input" });
+    }
+
+    const token = await storage.consumeEmailVerificationToken(hashToken(result.data.token));
+    if (!token) {
+      return res.status(400).json({ message: "This verification link is invalid or has expired" });
+    }
+
+    // The address may have changed since the link was sent
+    const user = await storage.getUser(token.userId);
+    if (!user || user.email !== token.email) {
+      return res.status(400).json({ message: "This verification link is invalid or has expired" });
+    }
+
+    const updated = await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+    res.json({ user: toSafeUser(updated!) });
+  }));
+
+  app.post("/api/auth/resend-verification", requireAuth, asyncHandler(async (req, res) => {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user) {
+      return res.status(401).json({ message: "User not found" });
+    }
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ message: "Email is already verified" });
+    }
+
+    await sendVerificationEmail(req, user);
+    res.json({ message: "Verification email sent" });
+  }));
+
+  // Active login sessions (devices)
+  app.get("/api/auth/sessions", requireAuth, asyncHandler(async (req, res) => {
+    const rows = await storage.getUserSessions(req.session.userId!);
+    const activeSessions: ActiveSession[] = rows.map((row) => {
+      const data = row.sess as Partial<session.SessionData>;
+      return {
+        id: sessionHandle(row.sid),
+        userAgent: data.userAgent || null,
+        ip: data.ip || null,
+        createdAt: data.createdAt || null,
+        lastSeenAt: data.lastSeenAt || null,
+        current: row.sid === req.sessionID,
+      };
+    });
+    res.json(activeSessions);
+  }));
+
+  app.delete("/api/auth/sessions/:id", requireAuth, asyncHandler(async (req, res) => {
+    const rows = await storage.getUserSessions(req.session.userId!);
+    const target = rows.find((row) => sessionHandle(row.sid) === req.params.id);
+    if (!target) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    if (target.sid === req.sessionID) {
+      return res.status(400).json({ message: "Use log out to end your current session" });
+    }
+
+    await storage.deleteUserSession(target.sid);
+    res.json({ message: "Session revoked" });
+  }));
+
+  app.delete("/api/auth/sessions", requireAuth, asyncHandler(async (req, res) => {
+    await storage.deleteUserSessions(req.session.userId!, req.sessionID);
+    res.json({ message: "Signed out of all other sessions" });
+  }));
+
+  // Two-factor authentication
+  app.post("/api/auth/2fa/setup", requireAuth, asyncHandler(async (req, res) => {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user) {
+      return res.status(401).json({ message: "User not found" });
+    }
+    if (user.totpEnabledAt) {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+
+    const secret = generateTotpSecret();
+    req.session.pendingTotpSecret = secret;
+
+    const otpauthUrl = totpAuthUrl(secret, user.username);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    res.json({ secret, otpauthUrl, qrCode });
+  }));
+
+  app.post("/api/auth/2fa/enable", requireAuth, asyncHandler(async (req, res) => {
+    const result = twoFactorCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input" });
+    }
+
+    const secret = req.session.pendingTotpSecret;
+    if (!secret) {
+      return res.status(400).json({ message: "Start two-factor setup first" });
+    }
+
+    const step = verifyTotp(secret, result.data.code);
+    if (step === null) {
+      return res.status(400).json({ message: "Invalid authentication code" });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const user = await storage.updateUser(req.session.userId!, {
+      totpSecret: secret,
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: step,
+      totpRecoveryCodes: recoveryCodes.map((code) => hashToken(code)),
+    });
+    delete req.session.pendingTotpSecret;
+
+    // Recovery codes are only ever shown here
+    res.json({ user: toSafeUser(user!), recoveryCodes });
+  }));
+
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, asyncHandler(async (req, res) => {
+    const result = twoFactorCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input" });
+    }
+
+    const user = await storage.getUser(req.session.userId!);
+    if (!user?.totpEnabledAt) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+    if (!(await verifySecondFactor(user, result.data.code))) {
+      return res.status(400).json({ message: "Invalid authentication code" });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.updateUser(user.id, { totpRecoveryCodes: recoveryCodes.map((code) => hashToken(code)) });
+
+    res.json({ recoveryCodes });
+  }));
+
+  app.post("/api/auth/2fa/disable", requireAuth, asyncHandler(async (req, res) => {
+    const result = disableTwoFactorSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input" });
+    }
+
+    const user = await storage.getUser(req.session.userId!);
+    if (!user?.totpEnabledAt) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+    if (isStaff(user) && await isAdminTwoFactorRequired()) {
+      return res.status(400).json({ message: "Staff accounts must keep two-factor authentication enabled" });
+    }
+
+    const validPassword = await bcrypt.compare(result.data.password, user.password);
+    if (!validPassword || !(await verifySecondFactor(user, result.data.code))) {
+      return res.status(400).json({ message: "Invalid password or authentication code" });
+    }
+
+    const updated = await storage.updateUser(user.id, {
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      totpRecoveryCodes: null,
+    });
+
+    res.json({ user: toSafeUser(updated!) });
+  }));
+
+  // Account self-service
+  app.patch("/api/users/me", requireAuth, asyncHandler(async (req, res) => {
+    const result = updateMeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+
+    const user = await storage.getUser(req.session.userId!);
+    if (!user) {
+      return res.status(401).json({ message: "User not found" });
+    }
+
+    const { username, fullName, bio, timeZone, email, newPassword, currentPassword } = result.data;
+    const emailChanged = email !== undefined && email !== user.email;
+    const usernameChanged = username !== undefined && username !== user.username;
+
+    if (emailChanged || newPassword) {
+      const validPassword = currentPassword ? await bcrypt.compare(currentPassword, user.password) : false;
+      if (!validPassword) {
+        return res.status(403).json({ message: "Current password is incorrect" });
+      }
+    }
+
+    if (usernameChanged && await storage.getUserByUsername(username)) {
+      return res.status(400).json({ message: "Username already taken" });
+    }
+    if (emailChanged && await storage.getUserByEmail(email)) {
+      return res.status(400).json({ message: "Email already registered" });
+    }
+
+    const updates: Partial<User> = {};
+    if (usernameChanged) updates.username = username;
+    if (fullName !== undefined) updates.fullName = fullName;
+    if (bio !== undefined) updates.bio = bio || null;
+    if (timeZone !== undefined) updates.timeZone = timeZone;
+    if (emailChanged) {
+      updates.email = email;
+      updates.emailVerifiedAt = null;
+    }
+    if (newPassword) {
+      updates.password = await bcrypt.hash(newPassword, 10);
+    }
+
+    const updated = await storage.updateUser(user.id, updates);
+    if (!updated) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    if (newPassword) {
+      // Sign out every other device that knew the old password
+      await storage.deleteUserSessions(user.id, req.sessionID);
+    }
+    if (emailChanged) {
+      await sendVerificationEmail(req, updated).catch((error) => {
+        console.error("Verification email failed:", error);
+      });
+    }
+
+    res.json({ user: toSafeUser(updated) });
+  }));
+
+  app.delete("/api/users/me", requireAuth, asyncHandler(async (req, res) => {
+    const result = deleteMeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input" });
+    }
+
+    const user = await storage.getUser(req.session.userId!);
+    if (!user) {
+      return res.status(401).json({ message: "User not found" });
+    }
+
+    const validPassword = await bcrypt.compare(result.data.password, user.password);
+    if (!validPassword) {
+      return res.status(403).json({ message: "Password is incorrect" });
+    }
+
+    if (await isLastRoleManager(user)) {
+      return res.status(400).json({ message: "Give another user your role before deleting the last account that can manage roles" });
+    }
+
+    await deleteUserExports(user.id);
+    await deleteAvatar(user.id);
+    await storage.deleteUserSessions(user.id);
+    await storage.deleteUser(user.id);
+
+    req.session.destroy(() => {
+      res.json({ message: "Account deleted" });
+    });
+  }));
+
+  app.post("/api/users/me/avatar", requireAuth, avatarLimit, parseAvatarUpload, asyncHandler(async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "Please choose a JPEG, PNG, WebP or GIF image" });
+    }
+
+    let avatarUrl: string;
+    try {
+      avatarUrl = await saveAvatar(req.session.userId!, req.file.buffer);
+    } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+
+    const updated = await storage.updateUser(req.session.userId!, { avatarUrl });
+    res.json({ user: toSafeUser(updated!) });
+  }));
+
+  app.delete("/api/users/me/avatar", requireAuth, asyncHandler(async (req, res) => {
+    await deleteAvatar(req.session.userId!);
+    const updated = await storage.updateUser(req.session.userId!, { avatarUrl: null });
+    res.json({ user: toSafeUser(updated!) });
+  }));
+
+  // Personal data export. Small accounts get the zip straight away; larger
+  // ones are built in the background and listed for download. Starting one
+  // is a POST so it needs the CSRF token; GET reports on the latest.
+  app.get("/api/users/me/export", requireAuth, asyncHandler(async (req, res) => {
+    const [latest] = await pruneExpiredExports(req.session.userId!);
+    if (!latest) {
+      return res.status(404).json({ message: "No export has been requested" });
+    }
+    res.json(toExportInfo(latest));
+  }));
+
+  app.post("/api/users/me/export", requireAuth, exportLimit, asyncHandler(async (req, res) => {
+    const userId = req.session.userId!;
+    const data = await collectUserData(userId);
+
+    if (countRows(data) <= SYNC_EXPORT_ROW_LIMIT) {
+      const zip = await buildExportZip(data);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${exportFileName()}"`);
+      return res.send(zip);
+    }
+
+    const existing = (await pruneExpiredExports(userId)).find((e) => e.status === "pending");
+    const dataExport = existing ?? await queueExport(userId);
+    res.status(202).json(toExportInfo(dataExport));
+  }));
+
+  app.get("/api/users/me/exports", requireAuth, asyncHandler(async (req, res) => {
+    const exports = await pruneExpiredExports(req.session.userId!);
+    res.json(exports.map(toExportInfo));
+  }));
+
+  app.get("/api/users/me/exports/:id/download", requireAuth, asyncHandler(async (req, res) => {
+    const dataExport = await storage.getDataExport(req.params.id);
+    if (!dataExport || dataExport.userId !== req.session.userId) {
+      return res.status(404).json({ message: "Export not found" });
+    }
+    if (dataExport.status !== "ready" || !dataExport.filePath || dataExport.expiresAt.getTime() <= Date.now()) {
+      return res.status(409).json({ message: "Export is not available" });
+    }
+
+    res.download(dataExport.filePath, exportFileName(dataExport.createdAt));
+  }));
+
+  // Tutor availability
+  app.get("/api/users/me/availability", requireAuth, asyncHandler(async (req, res) => {
+    const [windows, exceptions] = await Promise.all([
+      storage.getAvailabilityWindows(req.session.userId!),
+      storage.getAvailabilityExceptions(req.session.userId!),
+    ]);
+    const schedule: AvailabilitySchedule = {
+      timeZone: windows[0]?.timeZone ?? null,
+      windows: windows.map(({ id, weekday, startMinute, endMinute }) => ({ id, weekday, startMinute, endMinute })),
+      exceptions: exceptions.map(({ id, date, reason }) => ({ id, date, reason })),
+    };
+    res.json(schedule);
+  }));
+
+  app.put("/api/users/me/availability", requireAuth, asyncHandler(async (req, res) => {
+    const result = updateAvailabilitySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid availability", errors: result.error.flatten() });
+    }
+
+    const windows = await storage.replaceAvailabilityWindows(req.session.userId!, result.data.timeZone, result.data.windows);
+    res.json(windows.map(({ id, weekday, startMinute, endMinute }) => ({ id, weekday, startMinute, endMinute })));
+  }));
+
+  app.post("/api/users/me/availability/exceptions", requireAuth, asyncHandler(async (req, res) => {
+    const result = availabilityExceptionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid date" });
+    }
+
+    const exception = await storage.createAvailabilityException({
+      userId: req.session.userId!,
+      date: result.data.date,
+      reason: result.data.reason || null,
+    });
+    res.status(201).json({ id: exception.id, date: exception.date, reason: exception.reason });
+  }));
+
+  app.delete("/api/users/me/availability/exceptions/:id", requireAuth, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteAvailabilityException(req.params.id, req.session.userId!);
+    if (!deleted) {
+      return res.status(404).json({ message: "Exception not found" });
+    }
+    res.json({ message: "Exception removed" });
+  }));
+
+  // Personal access tokens. The token itself is only ever returned on creation.
+  app.get("/api/users/me/tokens", requireAuth, asyncHandler(async (req, res) => {
+    const tokens = await storage.getApiTokensByUserId(req.session.userId!);
+    res.json(tokens.map(toApiTokenInfo));
+  }));
+
+  app.post("/api/users/me/tokens", requireAuth, asyncHandler(async (req, res) => {
+    const result = createApiTokenSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+
+    const { name, scopes, expiresInDays } = result.data;
+    const { token, prefix } = generateApiToken();
+    const created = await storage.createApiToken({
+      userId: req.session.userId!,
+      name,
+      tokenHash: hashToken(token),
+      prefix,
+      scopes: Array.from(new Set(scopes)),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+    });
+
+    res.status(201).json({ token, info: toApiTokenInfo(created) });
+  }));
 
-  // Auth routes
-  app.post("/api/auth/register", asyncHandler(async (req, res) => {
-    const result = registerSchema.safeParse(req.body);
+  app.delete("/api/users/me/tokens/:id", requireAuth, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteApiToken(req.params.id, req.session.userId!);
+    if (!deleted) {
+      return res.status(404).json({ message: "Token not found" });
+    }
+    res.json({ message: "Token revoked" });
+  }));
+
+  // Skills routes
+  app.get("/api/skills/my", requireScope("read:skills"), requireAuth, asyncHandler(async (req, res) => {
+    // Includes archived skills so the dashboard can offer to restore them
+    const skills = await storage.getSkillsByUserId(req.session.userId!, { includeArchived: true });
+    res.json(await withTags(skills));
+  }));
+
+  // Active skills in the same layout the import reads
+  app.get("/api/skills/my/export", requireScope("read:skills"), requireAuth, asyncHandler(async (req, res) => {
+    const result = skillExportSchema.safeParse(req.query);
     if (!result.success) {
       return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
     }
 
-    const { username, password, email, fullName } = result.data;
+    const { format } = result.data;
+    const skills = await withTags(await storage.getSkillsByUserId(req.session.userId!));
+    res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json");
+    res.setHeader("Content-Disposition", `attachment; filename="skillswap-skills.${format}"`);
+    res.send(exportSkills(format, skills));
+  }));
 
-    // Check if user exists
-    const existingUsername = await storage.getUserByUsername(username);
-    if (existingUsername) {
-      return res.status(400).json({ message: "Username already taken" });
+  // Adds skills in bulk from a CSV or JSON file. Every row is checked against
+  // the same rules as a single skill; a dry run stops there so the dashboard
+  // can show a preview, otherwise the rows that passed are saved together.
+  app.post("/api/skills/import", requireScope("write:skills"), requireAuth, skillImportLimit, asyncHandler(async (req, res) => {
+    const result = skillImportSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
     }
 
-    const existingEmail = await storage.getUserByEmail(email);
-    if (existingEmail) {
-      return res.status(400).json({ message: "Email already registered" });
+    let records: Record<string, unknown>[];
+    try {
+      records = parseSkillImport(result.data.format, result.data.content);
+    } catch (error) {
+      if (error instanceof SkillImportError) {
+        return res.status(400).json({ message: error.message, code: "INVALID_IMPORT_FILE" });
+      }
+      throw error;
     }
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(password, 10);
+    const userId = req.session.userId!;
+    const findCategory = categoryLookup(await storage.getCategories());
+    // Where each skill was first seen: 0 for skills already on the account
+    const seen = new Map((await storage.getSkillsByUserId(userId)).map((skill) => [skillKey(skill), 0]));
+    const rows: SkillImportRow[] = [];
+    const toCreate: (InsertSkill & { tags: TagInfo[] })[] = [];
+
+    for (let index = 0; index < records.length; index++) {
+      const record = records[index];
+      const row = index + 1;
+      const givenCategory = typeof record.category === "string" ? record.category : undefined;
+      const category = givenCategory ? findCategory(givenCategory) : undefined;
+      const parsed = skillSchema.safeParse({ ...record, category: category ?? record.category });
+
+      const errors: string[] = [];
+      if (!parsed.success) {
+        const { formErrors, fieldErrors } = parsed.error.flatten();
+        errors.push(...formErrors);
+        for (const [field, messages] of Object.entries(fieldErrors)) {
+          errors.push(`${field}: ${messages?.[0]}`);
+        }
+      }
+      if (givenCategory?.trim() && !category) {
+        errors.push(`category: Unknown category "${givenCategory}"`);
+      }
+      if (!parsed.success || errors.length > 0) {
+        const name = typeof record.name === "string" ? record.name : null;
+        rows.push({ row, status: "invalid", skill: null, name, errors });
+        continue;
+      }
 
-    // Create user
-    const user = await storage.createUser({
-      username,
-      password: hashedPassword,
-      email,
-      fullName,
-    });
+      const { tags: tagTexts = [], ...details } = parsed.data;
+      const tags = canonicalTags(tagTexts);
+      const skill = {
+        ...details,
+        description: details.description ?? null,
+        experienceLevel: details.experienceLevel ?? null,
+        yearsExperience: details.yearsExperience ?? null,
+        tags: tags.map((t) => t.name),
+      };
+
+      const key = skillKey(details);
+      const firstSeen = seen.get(key);
+      if (firstSeen !== undefined) {
+        const reason = firstSeen === 0 ? "You already have this skill" : `Same skill as row ${firstSeen}`;
+        rows.push({ row, status: "duplicate", skill, name: details.name, errors: [reason] });
+        continue;
+      }
+      seen.set(key, row);
+      rows.push({ row, status: "ready", skill, name: details.name, errors: [] });
+      toCreate.push({ ...details, userId, tags });
+    }
+
+    if (result.data.dryRun) {
+      const report: SkillImportReport = { dryRun: true, created: 0, rows };
+      return res.json(report);
+    }
+
+    await storage.createSkillsWithTags(toCreate);
+    const report: SkillImportReport = {
+      dryRun: false,
+      created: toCreate.length,
+      rows: rows.map((r) => (r.status === "ready" ? { ...r, status: "created" } : r)),
+    };
+    res.status(201).json(report);
+  }));
 
-    req.session.userId = user.id;
+  app.post("/api/skills", requireScope("write:skills"), requireAuth, asyncHandler(async (req, res) => {
+    const result = skillSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+    if (!(await storage.getCategoryBySlug(result.data.category))) {
+      return res.status(400).json({ message: "Unknown category", code: "UNKNOWN_CATEGORY" });
+    }
 
-    res.status(201).json({ 
-      user: { ...user, password: undefined }
+    const { tags: tagTexts = [], ...details } = result.data;
+    const skill = await storage.createSkill({
+      ...details,
+      userId: req.session.userId!,
     });
+    const tags = await storage.setSkillTags(skill.id, canonicalTags(tagTexts));
+
+    res.status(201).json({ ...skill, tags });
   }));
 
-  app.post("/api/auth/login", asyncHandler(async (req, res) => {
-    const result = loginSchema.safeParse(req.body);
+  app.patch("/api/skills/:id", requireScope("write:skills"), requireAuth, asyncHandler(async (req, res) => {
+    const result = updateSkillSchema.safeParse(req.body);
     if (!result.success) {
-      return res.status(400).json({ message: "Invalid input" });
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
     }
 
-    const { username, password } = result.data;
+    const skill = await storage.getSkill(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ message: "Skill not found" });
+    }
+    if (skill.userId !== req.session.userId) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+    // Skills filed under a since-deleted category can keep it until it's changed
+    if (result.data.category && result.data.category !== skill.category && !(await storage.getCategoryBySlug(result.data.category))) {
+      return res.status(400).json({ message: "Unknown category", code: "UNKNOWN_CATEGORY" });
+    }
 
-    const user = await storage.getUserByUsername(username);
-    if (!user) {
-      return res.status(401).json({ message: "Invalid username or password" });
+    // Tags aren't part of a revision, so changing only them doesn't record one
+    const { tags: tagTexts, ...details } = result.data;
+    if (tagTexts) {
+      await storage.setSkillTags(skill.id, canonicalTags(tagTexts));
     }
 
-    const validPassword = await bcrypt.compare(password, user.password);
-    if (!validPassword) {
-      return res.status(401).json({ message: "Invalid username or password" });
+    // Don't record a revision for a save that changes nothing
+    const changes = Object.fromEntries(
+      Object.entries(details).filter(([key, value]) => skill[key as keyof typeof details] !== value),
+    );
+    if (Object.keys(changes).length === 0) {
+      const [unchanged] = await withTags([skill]);
+      return res.json(unchanged);
+    }
+
+    const updated = await storage.updateSkill(skill.id, changes);
+    if (!updated) {
+      return res.status(404).json({ message: "Skill not found" });
     }
+    const [withUpdatedTags] = await withTags([updated]);
+    res.json(withUpdatedTags);
+  }));
 
-    req.session.userId = user.id;
+  app.get("/api/skills/:id/revisions", requireScope("read:skills"), requireAuth, asyncHandler(async (req, res) => {
+    const skill = await storage.getSkill(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ message: "Skill not found" });
+    }
+    if (skill.userId !== req.session.userId) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
 
-    res.json({ user: { ...user, password: undefined } });
+    res.json(await storage.getSkillRevisions(skill.id));
   }));
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        return res.status(500).json({ message: "Could not log out" });
+  // Archives rather than deletes, so past sessions and their reviews survive
+  app.delete("/api/skills/:id", requireScope("write:skills"), requireAuth, asyncHandler(async (req, res) => {
+    const skill = await storage.getSkill(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ message: "Skill not found" });
+    }
+    if (skill.userId !== req.session.userId) {
+      // Moderation is a staff action and not available to API tokens
+      const user = req.apiToken ? undefined : await storage.getUser(req.session.userId!);
+      if (!hasPermission(user?.role, "skills.moderate")) {
+        return res.status(403).json({ message: "Not authorized" });
       }
-      res.json({ message: "Logged out successfully" });
-    });
-  });
+    }
+    if (skill.archivedAt) {
+      return res.json(skill);
+    }
 
-  app.get("/api/auth/me", asyncHandler(async (req, res) => {
-    if (!req.session.userId) {
-      return res.status(401).json({ message: "Not authenticated" });
+    const archived = await storage.archiveSkill(skill.id, req.session.userId!);
+    res.json(archived);
+  }));
+
+  app.post("/api/skills/:id/restore", requireScope("write:skills"), requireAuth, asyncHandler(async (req, res) => {
+    const skill = await storage.getSkill(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ message: "Skill not found" });
     }
 
-    const user = await storage.getUser(req.session.userId);
-    if (!user) {
-      return res.status(401).json({ message: "User not found" });
+    const isOwner = skill.userId === req.session.userId;
+    const user = req.apiToken ? undefined : await storage.getUser(req.session.userId!);
+    const canModerate = hasPermission(user?.role, "skills.moderate");
+    if (!isOwner && !canModerate) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+    // Owners can't undo a moderator's removal
+    if (skill.archivedBy && skill.archivedBy !== skill.userId && !canModerate) {
+      return res.status(403).json({ message: "This skill was removed by a moderator", code: "ARCHIVED_BY_MODERATOR" });
+    }
+    if (!skill.archivedAt) {
+      return res.json(skill);
     }
 
-    res.json({ user: { ...user, password: undefined } });
+    const restored = await storage.restoreSkill(skill.id);
+    res.json(restored);
   }));
 
-  // Skills routes
-  app.get("/api/skills/my", requireAuth, asyncHandler(async (req, res) => {
-    const skills = await storage.getSkillsByUserId(req.session.userId!);
-    res.json(skills);
+  // Evidence is public for skills anyone can see; owners can also see it on archived ones
+  app.get("/api/skills/:id/evidence", asyncHandler(async (req, res) => {
+    const skill = await storage.getSkill(req.params.id);
+    if (!skill || (skill.archivedAt && skill.userId !== req.session.userId)) {
+      return res.status(404).json({ message: "Skill not found" });
+    }
+
+    const evidence = await storage.getEvidenceForSkills([skill.id]);
+    res.json(evidence.get(skill.id) ?? []);
   }));
 
-  app.post("/api/skills", requireAuth, asyncHandler(async (req, res) => {
-    const result = skillSchema.safeParse(req.body);
+  app.post("/api/skills/:id/evidence", requireScope("write:skills"), requireAuth, asyncHandler(async (req, res) => {
+    const result = skillEvidenceSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
     }
 
-    const skill = await storage.createSkill({
-      ...result.data,
-      userId: req.session.userId!,
-    });
+    const skill = await storage.getSkill(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ message: "Skill not found" });
+    }
+    if (skill.userId !== req.session.userId) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+    if (skill.type !== "offering") {
+      return res.status(400).json({ message: "Only skills you offer can have evidence" });
+    }
+    const existing = (await storage.getEvidenceForSkills([skill.id])).get(skill.id) ?? [];
+    if (existing.length >= MAX_EVIDENCE_PER_SKILL) {
+      return res.status(400).json({ message: `A skill can have at most ${MAX_EVIDENCE_PER_SKILL} pieces of evidence` });
+    }
 
-    res.status(201).json(skill);
+    const evidence = await storage.createSkillEvidence({ skillId: skill.id, ...result.data });
+    res.status(201).json(evidence);
   }));
 
-  app.delete("/api/skills/:id", requireAuth, asyncHandler(async (req, res) => {
+  app.delete("/api/skills/:id/evidence/:evidenceId", requireScope("write:skills"), requireAuth, asyncHandler(async (req, res) => {
     const skill = await storage.getSkill(req.params.id);
     if (!skill) {
       return res.status(404).json({ message: "Skill not found" });
@@ -197,88 +1658,335 @@ export async function registerRoutes(
       return res.status(403).json({ message: "Not authorized" });
     }
 
-    await storage.deleteSkill(req.params.id);
-    res.json({ message: "Skill deleted" });
+    if (!(await storage.deleteSkillEvidence(req.params.evidenceId, skill.id))) {
+      return res.status(404).json({ message: "Evidence not found" });
+    }
+    res.json({ message: "Evidence removed" });
+  }));
+
+  // A learner endorsing the skill they were taught. Only the learner on a
+  // completed session with the skill's owner can, once per skill, and enough
+  // endorsements verify it.
+  app.post("/api/skills/:id/endorsements", requireScope("write:reviews"), requireVerified, endorsementLimit, asyncHandler(async (req, res) => {
+    const skill = await storage.getSkill(req.params.id);
+    if (!skill || skill.archivedAt) {
+      return res.status(404).json({ message: "Skill not found" });
+    }
+    if (skill.userId === req.session.userId) {
+      return res.status(400).json({ message: "You can't endorse your own skill" });
+    }
+    if (skill.type !== "offering") {
+      return res.status(400).json({ message: "Only offered skills can be endorsed" });
+    }
+    if (!(await storage.hasCompletedSession(req.session.userId!, skill.userId, skill.id))) {
+      return res.status(403).json({
+        message: "Only learners who finished a session on this skill can endorse it",
+        code: "NO_COMPLETED_SESSION",
+      });
+    }
+
+    const counts = await storage.addSkillEndorsement(skill.id, req.session.userId!);
+    if (!counts) {
+      return res.status(409).json({ message: "You've already endorsed this skill", code: "ALREADY_ENDORSED" });
+    }
+    // Endorsements of an earlier experience level or years don't vouch for this one
+    let verifiedAt = skill.verifiedAt;
+    if (!verifiedAt && counts.sinceProficiencyChange >= ENDORSEMENTS_TO_VERIFY) {
+      verifiedAt = (await storage.verifySkill(skill.id, null))?.verifiedAt ?? null;
+    }
+    res.status(201).json({ endorsementCount: counts.total, verifiedAt });
+  }));
+
+  app.post("/api/skills/:id/verify", requirePermission("skills.moderate"), asyncHandler(async (req, res) => {
+    const skill = await storage.getSkill(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ message: "Skill not found" });
+    }
+    if (skill.type !== "offering") {
+      return res.status(400).json({ message: "Only offered skills can be verified" });
+    }
+
+    const verified = await storage.verifySkill(skill.id, req.session.userId!);
+    res.json(verified);
   }));
 
-  // Search route
+  app.delete("/api/skills/:id/verify", requirePermission("skills.moderate"), asyncHandler(async (req, res) => {
+    const skill = await storage.getSkill(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ message: "Skill not found" });
+    }
+
+    const unverified = await storage.unverifySkill(skill.id);
+    res.json(unverified);
+  }));
+
+  // Search route. Filtered, sorted and paged in the database; ?tag can be repeated.
   app.get("/api/search", asyncHandler(async (req, res) => {
-    const query = req.query.q as string | undefined;
-    const category = req.query.category as string | undefined;
-    
-    const skills = await storage.searchSkills(query, category);
-    res.json(skills);
+    const result = skillSearchSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+
+    const { q, category, type, excludeUserId, ...page } = result.data;
+    const results = await searchSkillsPage(page, {
+      query: q || undefined,
+      categorySlugs: category ? await categoryFilter(category) : undefined,
+      tagSlugs: tagQuery(req.query.tag),
+      type,
+      excludeUserId,
+    });
+    if (!results) {
+      return res.status(400).json({ message: "Invalid cursor", code: "INVALID_CURSOR" });
+    }
+    res.json(results);
+  }));
+
+  // Tag routes
+  app.get("/api/tags", asyncHandler(async (req, res) => {
+    const result = tagSearchSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+
+    // Canonicalize first so "JS" suggests JavaScript
+    const prefix = canonicalTag(result.data.q)?.slug;
+    if (!prefix) {
+      return res.json([]);
+    }
+    res.json(await storage.searchTags(prefix, result.data.limit));
+  }));
+
+  // Active skills with a tag, a page at a time. Synonyms resolve to their
+  // tag, so /api/tags/js lists JavaScript.
+  app.get("/api/tags/:slug", asyncHandler(async (req, res) => {
+    const result = searchPageSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+
+    const slug = canonicalTag(req.params.slug)?.slug;
+    const tag = slug ? await storage.getTag(slug) : undefined;
+    if (!tag) {
+      return res.status(404).json({ message: "Tag not found" });
+    }
+
+    const results = await searchSkillsPage(result.data, { tagSlugs: [tag.slug] });
+    if (!results) {
+      return res.status(400).json({ message: "Invalid cursor", code: "INVALID_CURSOR" });
+    }
+    const listing: TagListing = { tag, ...results };
+    res.json(listing);
+  }));
+
+  // Category routes
+  app.get("/api/categories", asyncHandler(async (req, res) => {
+    res.json(await storage.getCategories());
   }));
 
   // Sessions routes
-  app.get("/api/sessions/my", requireAuth, asyncHandler(async (req, res) => {
+  app.get("/api/sessions/my", requireScope("read:sessions"), requireAuth, asyncHandler(async (req, res) => {
     const sessions = await storage.getSessionsByUserId(req.session.userId!);
     res.json(sessions);
   }));
 
-  app.post("/api/sessions/request", requireAuth, asyncHandler(async (req, res) => {
+  app.post("/api/sessions/request", requireScope("write:sessions"), requireVerified, ...sessionRequestLimits, asyncHandler(async (req, res) => {
     const result = sessionRequestSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ message: "Invalid input" });
     }
 
     const { skillId, providerId, message } = result.data;
+    const scheduledAt = result.data.scheduledAt ? new Date(result.data.scheduledAt) : undefined;
 
     // Verify skill exists and belongs to provider
     const skill = await storage.getSkill(skillId);
     if (!skill || skill.userId !== providerId) {
       return res.status(400).json({ message: "Invalid skill or provider" });
     }
+    if (skill.archivedAt) {
+      return res.status(400).json({ message: "This skill is no longer offered" });
+    }
 
     // Can't request session with yourself
     if (providerId === req.session.userId) {
       return res.status(400).json({ message: "Cannot request session with yourself" });
     }
 
+    if (scheduledAt && !(await isBookableSlot(providerId, scheduledAt))) {
+      return res.status(409).json({ message: "That time is no longer available", code: "SLOT_UNAVAILABLE" });
+    }
+
     const session = await storage.createSession({
       requesterId: req.session.userId!,
       providerId,
       skillId,
+      skillRevision: skill.revision,
       message,
+      scheduledAt,
     });
+    // Someone else booked an overlapping time since the check above
+    if (!session) {
+      return res.status(409).json({ message: "That time is no longer available", code: "SLOT_UNAVAILABLE" });
+    }
 
     res.status(201).json(session);
   }));
 
   // Admin routes
-  app.get("/api/admin/users", requireAdmin, asyncHandler(async (req, res) => {
+  app.get("/api/admin/users", requirePermission("users.view"), asyncHandler(async (req, res) => {
     const users = await storage.getAllUsers();
-    res.json(users.map((u) => ({ ...u, password: undefined })));
+    res.json(users.map(toSafeUser));
   }));
 
-  app.patch("/api/admin/users/:id", requireAdmin, asyncHandler(async (req, res) => {
-    const { isAdmin } = req.body;
-    
-    const user = await storage.updateUser(req.params.id, { isAdmin });
-    if (!user) {
+  app.patch("/api/admin/users/:id", requirePermission("users.role"), asyncHandler(async (req, res) => {
+    const result = updateRoleSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid role" });
+    }
+    if (req.params.id === req.session.userId) {
+      return res.status(400).json({ message: "Cannot change your own role" });
+    }
+
+    const [actor, target] = await Promise.all([
+      storage.getUser(req.session.userId!),
+      storage.getUser(req.params.id),
+    ]);
+    if (!target) {
       return res.status(404).json({ message: "User not found" });
     }
+    if (!canManageUser(actor!.role, target.role) || !assignableRoles(actor!.role).includes(result.data.role)) {
+      return res.status(403).json({ message: "You can't assign that role to this user" });
+    }
+    if (!hasPermission(result.data.role, "users.role") && await isLastRoleManager(target)) {
+      return res.status(400).json({ message: "At least one account must be able to manage roles" });
+    }
 
-    res.json({ ...user, password: undefined });
+    const user = await storage.updateUser(target.id, { role: result.data.role });
+    res.json(toSafeUser(user!));
   }));
 
-  app.delete("/api/admin/users/:id", requireAdmin, asyncHandler(async (req, res) => {
+  app.delete("/api/admin/users/:id", requirePermission("users.delete"), asyncHandler(async (req, res) => {
     // Can't delete yourself
     if (req.params.id === req.session.userId) {
       return res.status(400).json({ message: "Cannot delete yourself" });
     }
 
-    await storage.deleteUser(req.params.id);
+    const [actor, target] = await Promise.all([
+      storage.getUser(req.session.userId!),
+      storage.getUser(req.params.id),
+    ]);
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (!canManageUser(actor!.role, target.role)) {
+      return res.status(403).json({ message: "You can't delete this user" });
+    }
+    if (await isLastRoleManager(target)) {
+      return res.status(400).json({ message: "At least one account must be able to manage roles" });
+    }
+
+    await deleteUserExports(target.id);
+    await deleteAvatar(target.id);
+    await storage.deleteUserSessions(target.id);
+    await storage.deleteUser(target.id);
     res.json({ message: "User deleted" });
   }));
 
-  app.get("/api/admin/stats", requireAdmin, asyncHandler(async (req, res) => {
+  app.get("/api/admin/settings", requirePermission("settings.manage"), asyncHandler(async (req, res) => {
+    res.json({ requireAdmin2fa: await isAdminTwoFactorRequired() });
+  }));
+
+  app.patch("/api/admin/settings", requirePermission("settings.manage"), asyncHandler(async (req, res) => {
+    const result = adminSettingsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input" });
+    }
+
+    await storage.setSetting(REQUIRE_ADMIN_2FA_SETTING, String(result.data.requireAdmin2fa));
+    res.json(result.data);
+  }));
+
+  app.post("/api/admin/categories", requirePermission("categories.manage"), asyncHandler(async (req, res) => {
+    const result = categorySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+
+    const slug = slugify(result.data.name);
+    if (!slug) {
+      return res.status(400).json({ message: "Category names need at least one letter or number" });
+    }
+    if (await storage.getCategoryBySlug(slug)) {
+      return res.status(409).json({ message: "A category with that name already exists", code: "CATEGORY_EXISTS" });
+    }
+    const parentId = result.data.parentId ?? null;
+    if (parentId) {
+      const error = await categoryParentError(parentId);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+    }
+
+    const category = await storage.createCategory({
+      slug,
+      name: result.data.name,
+      icon: result.data.icon,
+      color: result.data.color,
+      parentId,
+      sortOrder: result.data.sortOrder ?? 0,
+    });
+    res.status(201).json(category);
+  }));
+
+  // The slug stays as it was, so renaming doesn't touch any skills
+  app.patch("/api/admin/categories/:id", requirePermission("categories.manage"), asyncHandler(async (req, res) => {
+    const result = updateCategorySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid input", errors: result.error.flatten() });
+    }
+
+    const category = await storage.getCategory(req.params.id);
+    if (!category) {
+      return res.status(404).json({ message: "Category not found" });
+    }
+    if (result.data.parentId) {
+      const error = await categoryParentError(result.data.parentId, category.id);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+    }
+
+    const updated = await storage.updateCategory(category.id, result.data);
+    res.json(updated);
+  }));
+
+  app.delete("/api/admin/categories/:id", requirePermission("categories.manage"), asyncHandler(async (req, res) => {
+    const category = await storage.getCategory(req.params.id);
+    if (!category) {
+      return res.status(404).json({ message: "Category not found" });
+    }
+    if ((await storage.getCategories()).some((c) => c.parentId === category.id)) {
+      return res.status(409).json({ message: "Move or delete its subcategories first", code: "CATEGORY_HAS_CHILDREN" });
+    }
+    const skillCount = await storage.countSkillsInCategory(category.slug);
+    if (skillCount > 0) {
+      return res.status(409).json({
+        message: `${skillCount} ${skillCount === 1 ? "skill is" : "skills are"} still filed under this category`,
+        code: "CATEGORY_IN_USE",
+      });
+    }
+
+    await storage.deleteCategory(category.id);
+    res.json({ message: "Category deleted" });
+  }));
+
+  app.get("/api/admin/stats", requirePermission("stats.view"), asyncHandler(async (req, res) => {
     const stats = await storage.getStats();
     res.json(stats);
   }));
 
   // Session status update
-  app.patch("/api/sessions/:id", requireAuth, asyncHandler(async (req, res) => {
+  app.patch("/api/sessions/:id", requireScope("write:sessions"), requireAuth, asyncHandler(async (req, res) => {
     const { status } = req.body;
     
     if (!["accepted", "completed", "cancelled"].includes(status)) {
@@ -301,12 +2009,26 @@ export async function registerRoutes(
       }
     }
 
+    // Completed sessions let the learner endorse the skill, so a session has
+    // to have been accepted and its time has to have come
+    if (status === "completed") {
+      if (session.status !== "accepted") {
+        return res.status(409).json({ message: "Only accepted sessions can be completed", code: "SESSION_NOT_ACCEPTED" });
+      }
+      if (!session.scheduledAt || session.scheduledAt > new Date()) {
+        return res.status(409).json({
+          message: "A session can only be completed after its scheduled time",
+          code: "SESSION_NOT_HELD",
+        });
+      }
+    }
+
     const updated = await storage.updateSession(req.params.id, { status });
     res.json(updated);
   }));
 
   // Reviews routes
-  app.post("/api/reviews", requireAuth, asyncHandler(async (req, res) => {
+  app.post("/api/reviews", requireScope("write:reviews"), requireVerified, asyncHandler(async (req, res) => {
     const { sessionId, revieweeId, rating, comment } = req.body;
 
     if (!sessionId || !revieweeId || typeof rating !== "number" || rating < 1 || rating > 5) {
@@ -351,30 +2073,58 @@ export async function registerRoutes(
       return res.status(404).json({ message: "User not found" });
     }
 
-    const skills = await storage.getSkillsByUserId(req.params.id);
-    const sessions = await storage.getSessionsByUserId(req.params.id);
-    const reviews = await storage.getReviewsByUserId(req.params.id);
-
-    const completedSessions = sessions.filter((s) => s.status === "completed").length;
-    const offeringSkills = skills.filter((s) => s.type === "offering").length;
-    const averageRating = reviews.length > 0 
-      ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length 
-      : 0;
-
-    const badges = [];
-    if (completedSessions >= 5) badges.push("top_tutor");
-    if (offeringSkills >= 3) badges.push("skill_master");
-    if (skills.length >= 1) badges.push("getting_started");
-    if (averageRating >= 4.5 && reviews.length >= 3) badges.push("highly_rated");
-
-    res.json({
-      completedSessions,
-      offeringSkills,
-      seekingSkills: skills.filter((s) => s.type === "seeking").length,
-      averageRating,
-      reviewCount: reviews.length,
-      badges,
-    });
+    res.json(await getUserStats(user.id));
+  }));
+
+  // Bookable slots, for picking a time when requesting a session
+  app.get("/api/users/:id/availability", asyncHandler(async (req, res) => {
+    const result = availabilityQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid date range" });
+    }
+
+    const user = await storage.getUser(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const { from, to } = bookingRange(
+      result.data.from ? new Date(result.data.from) : undefined,
+      result.data.to ? new Date(result.data.to) : undefined,
+    );
+    const [windows, slots] = await Promise.all([
+      storage.getAvailabilityWindows(user.id),
+      getBookableSlots(user.id, from, to),
+    ]);
+
+    const availability: UserAvailability = {
+      timeZone: windows[0]?.timeZone ?? null,
+      slots,
+    };
+    res.json(availability);
+  }));
+
+  // Public profile
+  app.get("/api/users/:username", asyncHandler(async (req, res) => {
+    const user = await storage.getUserByUsername(req.params.username);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const [skills, stats, recentReviews] = await Promise.all([
+      storage.getSkillsByUserId(user.id).then(withTags),
+      getUserStats(user.id),
+      storage.getRecentReviewsWithReviewer(user.id, PROFILE_REVIEW_LIMIT),
+    ]);
+
+    const profile: PublicProfile = {
+      ...toPublicUser(user),
+      offeredSkills: await withEvidence(skills.filter((s) => s.type === "offering")),
+      soughtSkills: skills.filter((s) => s.type === "seeking"),
+      stats,
+      recentReviews,
+    };
+    res.json(profile);
   }));
 
   return httpServer;
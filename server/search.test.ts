@@ -0,0 +1,155 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { SKILL_SORTS, type SkillSort } from "@shared/schema";
+import { prefixTsQuery } from "./search";
+import { skipWithoutDatabase, setupTestDatabase } from "./testing";
+
+// Queries people type that are full of tsquery operators and punctuation
+const AWKWARD_QUERIES = [
+  "C++ & (calc)!",
+  "rock'n'roll | jazz:*",
+  "a <-> b <2> c",
+  "\\'; DROP TABLE skills; --",
+  "!!! &|:* ()",
+  "Café NAÏVE",
+  "snake_case",
+  "  ",
+];
+
+describe("prefixTsQuery", () => {
+  it("turns each word into a prefix match", () => {
+    assert.equal(prefixTsQuery("calc"), "calc:*");
+    assert.equal(prefixTsQuery("Linear  Algebra"), "linear:* & algebra:*");
+  });
+
+  it("treats operators and punctuation as separators", () => {
+    assert.equal(prefixTsQuery("C++ & (calc)!"), "c:* & calc:*");
+    assert.equal(prefixTsQuery("rock'n'roll | jazz:*"), "rock:* & n:* & roll:* & jazz:*");
+    assert.equal(prefixTsQuery("a <-> b <2> c"), "a:* & b:* & 2:* & c:*");
+    assert.equal(prefixTsQuery("\\'; DROP TABLE skills; --"), "drop:* & table:* & skills:*");
+  });
+
+  it("keeps accented letters and underscores inside words", () => {
+    assert.equal(prefixTsQuery("Café NAÏVE"), "café:* & naïve:*");
+    assert.equal(prefixTsQuery("snake_case"), "snake_case:*");
+  });
+
+  it("returns null when there are no words", () => {
+    assert.equal(prefixTsQuery("!!! &|:* ()"), null);
+    assert.equal(prefixTsQuery("  "), null);
+    assert.equal(prefixTsQuery(""), null);
+  });
+});
+
+describe("storage.searchSkills", { skip: skipWithoutDatabase }, () => {
+  let endPool: () => Promise<void>;
+  let storage: Awaited<ReturnType<typeof setupTestDatabase>>["storage"];
+  let skillIds: string[];
+
+  before(async () => {
+    const setup = await setupTestDatabase();
+    storage = setup.storage;
+    endPool = () => setup.pool.end();
+
+    const createUser = (username: string) =>
+      storage.createUser({ username, password: "x", email: `${username}@example.com`, fullName: username });
+    const learner = await createUser("learner");
+    const [ada, bea, cal, dan] = await Promise.all(["ada", "bea", "cal", "dan"].map(createUser));
+
+    const addSkill = (user: { id: string }, name: string, description: string) =>
+      storage.createSkill({ userId: user.id, name, description, category: "mathematics", type: "offering" });
+    const skills = [
+      await addSkill(ada, "Calculus", "Limits, derivatives and integrals"),
+      await addSkill(ada, "Statistics", "Probability and a little calculus"),
+      await addSkill(bea, "Calculus", "Limits, derivatives and integrals"),
+      await addSkill(bea, "Linear Algebra", "Matrices and vector spaces"),
+      await addSkill(cal, "Calculus II", "Series and integration techniques"),
+      await addSkill(cal, "Algebra Basics", "Equations and inequalities"),
+      await addSkill(dan, "Calculas", "Misspelt, but still calculus"),
+      await addSkill(dan, "Geometry", "Shapes and proofs"),
+    ];
+    skillIds = skills.map((skill) => skill.id);
+
+    // Bookings, with ties in how popular skills are, and reviews giving bea
+    // and cal the same average of 13/3, which has no exact decimal form
+    const book = async (skillIndex: number, rating?: number, status = "completed") => {
+      const skill = skills[skillIndex];
+      const session = await storage.createSession({ requesterId: learner.id, providerId: skill.userId, skillId: skill.id, skillRevision: skill.revision });
+      await storage.updateSession(session!.id, { status });
+      if (rating !== undefined) {
+        await storage.createReview({ sessionId: session!.id, reviewerId: learner.id, revieweeId: skill.userId, rating });
+      }
+    };
+    await book(0, 5);
+    await book(2, 4);
+    await book(2, 4);
+    await book(3, 5);
+    await book(4, 5);
+    await book(4, 4);
+    await book(5, 4);
+    await book(6, undefined, "cancelled");
+    await book(7);
+
+    // Several skills created at the same moment, to the microsecond
+    await setup.pool.query("UPDATE skills SET created_at = '2026-01-01 10:00:00.123456' WHERE id = ANY($1)", [skillIds.slice(0, 4)]);
+    await setup.pool.query("UPDATE skills SET created_at = '2026-01-01 10:00:00.123457' WHERE id = ANY($1)", [skillIds.slice(4, 6)]);
+  });
+
+  after(async () => {
+    await endPool?.();
+  });
+
+  // Every skill, reading one page at a time and following the cursors
+  async function readAllPages(sort: SkillSort, limit: number, query?: string) {
+    const ids: string[] = [];
+    let after: Awaited<ReturnType<typeof storage.searchSkills>>["next"] | undefined;
+    let total: number | undefined;
+    for (let page = 0; page < 50; page++) {
+      const result = await storage.searchSkills({ query, sort, limit, after: after ?? undefined });
+      total ??= result.total;
+      assert.equal(result.total, total);
+      ids.push(...result.skills.map((skill) => skill.id));
+      if (!result.next) {
+        return { ids, total };
+      }
+      assert.equal(typeof result.next.value, "string");
+      after = result.next;
+    }
+    assert.fail(`${sort} kept returning more pages`);
+  }
+
+  for (const sort of SKILL_SORTS) {
+    for (const query of [undefined, "calc"]) {
+      it(`pages through ${sort} results${query ? ` for "${query}"` : ""} without gaps or repeats`, async () => {
+        const everything = await storage.searchSkills({ query, sort, limit: 100 });
+        assert.equal(everything.next, null);
+        assert.equal(everything.total, everything.skills.length);
+        if (!query) {
+          assert.deepEqual(new Set(everything.skills.map((skill) => skill.id)), new Set(skillIds));
+        }
+
+        const expected = everything.skills.map((skill) => skill.id);
+        for (const limit of [1, 2, 3]) {
+          const { ids, total } = await readAllPages(sort, limit, query);
+          assert.deepEqual(ids, expected, `limit ${limit}`);
+          assert.equal(total, expected.length);
+        }
+      });
+    }
+  }
+
+  it("matches prefixes and typos, ranking matches in the name first", async () => {
+    const result = await storage.searchSkills({ query: "calc", sort: "relevance", limit: 100 });
+    const names = result.skills.map((skill) => skill.name);
+    assert.deepEqual(new Set(names), new Set(["Calculus", "Calculus II", "Calculas", "Statistics"]));
+    assert.equal(names[names.length - 1], "Statistics");
+  });
+
+  it("accepts punctuation-heavy queries", async () => {
+    for (const query of AWKWARD_QUERIES) {
+      for (const sort of SKILL_SORTS) {
+        await assert.doesNotReject(storage.searchSkills({ query, sort, limit: 5 }), `${sort} search for ${JSON.stringify(query)}`);
+      }
+    }
+  });
+});
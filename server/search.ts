@@ -0,0 +1,65 @@
+import type { HighlightedText } from "@shared/schema";
+
+// Full-text search over skills. Each skill has a tsvector document in
+// skill_search_documents built from its name, tags, tutor's name and
+// description, weighted in that order so a match in the name ranks highest.
+// Typos are caught separately by pg_trgm similarity against the skill name.
+
+export const SEARCH_CONFIG = "english";
+
+// How close a misspelt word must be to a word of a skill's name to match,
+// from 0 to 1. pg_trgm's default of 0.6 misses most single-letter typos.
+export const FUZZY_MATCH_THRESHOLD = 0.4;
+
+// Builds a skill's document. Runs against a row of skills; the tutor's name
+// uses the simple configuration so names aren't stemmed.
+export const SEARCH_DOCUMENT_SQL = `
+  setweight(to_tsvector('${SEARCH_CONFIG}', skills.name), 'A') ||
+  setweight(to_tsvector('${SEARCH_CONFIG}', coalesce((
+    SELECT string_agg(tags.name, ' ') FROM skill_tags JOIN tags ON tags.id = skill_tags.tag_id
+    WHERE skill_tags.skill_id = skills.id
+  ), '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce((SELECT full_name FROM users WHERE users.id = skills.user_id), '')), 'C') ||
+  setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(skills.description, '')), 'D')
+`;
+
+// Every word of the query as a prefix, so "calc" finds Calculus while the
+// user is still typing. Null when there are no words to search for.
+export function prefixTsQuery(text: string): string | null {
+  // Anything that isn't part of a word, tsquery operators included, separates words
+  const words = text.toLowerCase().split(/[^\w\u00c0-\uffff]+/).filter(Boolean);
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(" & ") : null;
+}
+
+// ts_headline wraps matches in these, which don't turn up in ordinary text
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+// ts_headline options: a short snippet for descriptions, or the whole text for names
+export function headlineOptions(snippet: boolean): string {
+  const options = [`StartSel=${MATCH_START}`, `StopSel=${MATCH_END}`];
+  if (snippet) {
+    options.push("MaxWords=30", "MinWords=12", "MaxFragments=2", 'FragmentDelimiter=" … "');
+  } else {
+    options.push("HighlightAll=true");
+  }
+  return options.join(", ");
+}
+
+// Splits ts_headline output into plain and matched runs, so the client can
+// mark matches without rendering user text as HTML
+export function highlightParts(headline: string): HighlightedText {
+  const parts: HighlightedText = [];
+  for (const piece of headline.split(MATCH_START)) {
+    const end = piece.indexOf(MATCH_END);
+    if (end >= 0) {
+      parts.push({ text: piece.slice(0, end), match: true });
+      if (end + 1 < piece.length) {
+        parts.push({ text: piece.slice(end + 1), match: false });
+      }
+    } else if (piece) {
+      parts.push({ text: piece, match: false });
+    }
+  }
+  return parts;
+}
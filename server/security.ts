@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { generateToken } from "./tokens";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+export const CSRF_HEADER = "x-csrf-token";
+
+// Only applied in production: Vite's dev server relies on inline scripts and
+// a websocket for hot reload.
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'self'",
+  "script-src 'self'",
+  "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
+  "font-src 'self' data: https://fonts.gstatic.com",
+  "img-src 'self' data: blob:",
+  "connect-src 'self'",
+  "object-src 'none'",
+  "base-uri 'self'",
+  "form-action 'self'",
+  "frame-ancestors 'none'",
+].join("; ");
+
+export function securityHeaders(isProduction: boolean) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("X-Frame-Options", "DENY");
+    res.setHeader("Referrer-Policy", "strict-origin-when-cross-origin");
+    res.setHeader("Cross-Origin-Opener-Policy", "same-origin");
+    res.removeHeader("X-Powered-By");
+
+    if (isProduction) {
+      res.setHeader("Content-Security-Policy", CONTENT_SECURITY_POLICY);
+      // req.secure honours X-Forwarded-Proto when trust proxy is configured
+      if (req.secure) {
+        res.setHeader("Strict-Transport-Security", "max-age=31536000; includeSubDomains");
+      }
+    }
+    next();
+  };
+}
+
+// Returns the session's CSRF token, creating one if needed
+export function issueCsrfToken(req: Request): string {
+  if (!req.session.csrfToken) {
+    req.session.csrfToken = generateToken();
+  }
+  return req.session.csrfToken;
+}
+
+function tokensMatch(expected: string, provided: string) {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Synchronizer-token CSRF check for state-changing requests. The client reads
+// the token from GET /api/auth/csrf and echoes it in the X-CSRF-Token header.
+// Requests authenticated with an API token are exempt: browsers never attach
+// an Authorization header on their own, so they can't be forged cross-site.
+export function csrfProtection(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.has(req.method) || req.apiToken) {
+    return next();
+  }
+
+  const expected = req.session.csrfToken;
+  const provided = req.get(CSRF_HEADER);
+  if (!expected || !provided || !tokensMatch(expected, provided)) {
+    return res.status(403).json({ message: "Invalid or missing CSRF token", code: "CSRF_INVALID" });
+  }
+  next();
+}
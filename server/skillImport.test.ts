@@ -0,0 +1,160 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import bcrypt from "bcrypt";
+import type { SkillImportReport, SkillWithTags } from "@shared/schema";
+import { skipWithoutDatabase, setupTestDatabase, startTestServer, TestAgent } from "./testing";
+
+// skillImport.ts loads the storage layer through the export code, which wants
+// a database URL. Parsing never connects to it.
+process.env.DATABASE_URL ??= "postgres://localhost/unused";
+const { MAX_IMPORT_ROWS, SkillImportError, exportSkills, parseSkillImport } = await import("./skillImport");
+
+const HEADER = "name,description,category,type,experienceLevel,yearsExperience,tags";
+
+describe("parseSkillImport", () => {
+  it("reads quoted fields with commas, newlines and doubled quotes", () => {
+    const csv = [
+      HEADER,
+      '"Calculus, limits and series","Line one\nline two, with ""quotes""",mathematics,offering,advanced,5,"calc; series"',
+      'Guitar,,music,seeking,,,',
+    ].join("\r\n");
+    assert.deepEqual(parseSkillImport("csv", csv), [
+      {
+        name: "Calculus, limits and series",
+        description: 'Line one\nline two, with "quotes"',
+        category: "mathematics",
+        type: "offering",
+        experienceLevel: "advanced",
+        yearsExperience: 5,
+        tags: ["calc", "series"],
+      },
+      { name: "Guitar", category: "music", type: "seeking" },
+    ]);
+  });
+
+  it("matches headers loosely and skips blank lines and unknown columns", () => {
+    const csv = "\uFEFFName,Experience level,YEARS_EXPERIENCE,Notes\n\nPiano,beginner,two,ignored\n\n";
+    assert.deepEqual(parseSkillImport("csv", csv), [{ name: "Piano", experienceLevel: "beginner", yearsExperience: "two" }]);
+  });
+
+  it("undoes the quote exports put in front of formula-like cells", () => {
+    assert.deepEqual(parseSkillImport("csv", "name,description\nExcel,'=SUM(A1:A3)"), [
+      { name: "Excel", description: "=SUM(A1:A3)" },
+    ]);
+  });
+
+  it("reads back what exportSkills writes", () => {
+    const skill = {
+      name: 'Spreadsheets, "advanced"',
+      description: "=1+1\nand more",
+      category: "programming",
+      type: "offering",
+      experienceLevel: "expert",
+      yearsExperience: 12,
+      tags: [{ slug: "excel", name: "Excel" }, { slug: "formulas", name: "Formulas" }],
+    } as SkillWithTags;
+    const expected = { ...skill, tags: ["Excel", "Formulas"] };
+    assert.deepEqual(parseSkillImport("csv", exportSkills("csv", [skill])), [expected]);
+    assert.deepEqual(parseSkillImport("json", exportSkills("json", [skill])), [expected]);
+  });
+
+  it("reads a JSON list or an object with one, dropping nulls", () => {
+    const skill = { name: "Chess", category: "other", type: "offering", experienceLevel: null };
+    const expected = [{ name: "Chess", category: "other", type: "offering" }];
+    assert.deepEqual(parseSkillImport("json", JSON.stringify([skill])), expected);
+    assert.deepEqual(parseSkillImport("json", JSON.stringify({ skills: [skill] })), expected);
+  });
+
+  it("rejects files it can't read", () => {
+    const rejects = (format: "csv" | "json", content: string, message: RegExp) =>
+      assert.throws(() => parseSkillImport(format, content), (error: unknown) => error instanceof SkillImportError && message.test(error.message));
+
+    rejects("csv", `${HEADER}\n"Unclosed,mathematics`, /unclosed quote/);
+    rejects("csv", "title,category\nChess,other", /header/);
+    rejects("csv", `${HEADER}\n`, /no skills/);
+    rejects("csv", [HEADER, ...Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, i) => `Skill ${i}`)].join("\n"), /at most/);
+    rejects("json", "{not json", /not valid JSON/);
+    rejects("json", JSON.stringify({ name: "Chess" }), /list of skills/);
+  });
+});
+
+describe("POST /api/skills/import", { skip: skipWithoutDatabase }, () => {
+  const PASSWORD = "correct horse battery";
+  let close: () => Promise<void>;
+  let endPool: () => Promise<void>;
+  let baseUrl: string;
+  let storage: Awaited<ReturnType<typeof setupTestDatabase>>["storage"];
+  let userId: string;
+
+  // One of each kind of row the import can find
+  const csv = [
+    HEADER,
+    "Calculus,,Mathematics,offering,advanced,5,calc",
+    "Guitar,,Music,seeking,,,",
+    "Knitting,,Crafts,offering,,,",
+    "Chess,,other,offering,grandmaster,,",
+    "calculus ,,mathematics,offering,,,",
+    "Piano,,music,offering,,,",
+  ].join("\n");
+
+  before(async () => {
+    const setup = await setupTestDatabase();
+    storage = setup.storage;
+    endPool = () => setup.pool.end();
+
+    const user = await storage.createUser({
+      username: "ada",
+      password: await bcrypt.hash(PASSWORD, 4),
+      email: "ada@example.com",
+      fullName: "Ada",
+    });
+    userId = user.id;
+    await storage.createSkill({ userId, name: "Piano", category: "music", type: "offering" });
+
+    ({ baseUrl, close } = await startTestServer());
+  });
+
+  after(async () => {
+    await close?.();
+    await endPool?.();
+  });
+
+  const importCsv = async (dryRun: boolean) => {
+    const agent = new TestAgent(baseUrl);
+    await agent.login("ada", PASSWORD);
+    return agent.post("/api/skills/import", { format: "csv", content: csv, dryRun });
+  };
+
+  it("reports every row on a dry run and saves nothing", async () => {
+    const response = await importCsv(true);
+    assert.equal(response.status, 200);
+    const report = response.body as SkillImportReport;
+    assert.equal(report.dryRun, true);
+    assert.equal(report.created, 0);
+    assert.deepEqual(report.rows.map(({ row, status, name, errors }) => ({ row, status, name, errors })), [
+      { row: 1, status: "ready", name: "Calculus", errors: [] },
+      { row: 2, status: "ready", name: "Guitar", errors: [] },
+      { row: 3, status: "invalid", name: "Knitting", errors: ['category: Unknown category "Crafts"'] },
+      { row: 4, status: "invalid", name: "Chess", errors: [report.rows[3].errors[0]] },
+      { row: 5, status: "duplicate", name: "calculus", errors: ["Same skill as row 1"] },
+      { row: 6, status: "duplicate", name: "Piano", errors: ["You already have this skill"] },
+    ]);
+    assert.match(report.rows[3].errors[0], /^experienceLevel: /);
+    // Categories are stored by slug, whatever the file called them
+    assert.equal(report.rows[0].skill?.category, "mathematics");
+
+    const skills = await storage.getSkillsByUserId(userId);
+    assert.deepEqual(skills.map((skill) => skill.name), ["Piano"]);
+  });
+
+  it("saves only the rows that are ready", async () => {
+    const response = await importCsv(false);
+    assert.equal(response.status, 201);
+    const report = response.body as SkillImportReport;
+    assert.equal(report.created, 2);
+    assert.deepEqual(report.rows.map((row) => row.status), ["created", "created", "invalid", "invalid", "duplicate", "duplicate"]);
+
+    const skills = await storage.getSkillsByUserId(userId);
+    assert.deepEqual(skills.map((skill) => skill.name).sort(), ["Calculus", "Guitar", "Piano"]);
+  });
+});
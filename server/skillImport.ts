@@ -0,0 +1,164 @@
+import type { SkillWithTags } from "@shared/schema";
+import { toCsv } from "./dataExport";
+
+export const MAX_IMPORT_ROWS = 100;
+export const SKILL_IMPORT_FORMATS = ["csv", "json"] as const;
+export type SkillImportFormat = (typeof SKILL_IMPORT_FORMATS)[number];
+
+// Columns of an import file, which is also the layout exports are written in
+const SKILL_COLUMNS = ["name", "description", "category", "type", "experienceLevel", "yearsExperience", "tags"] as const;
+
+// CSV headers are matched ignoring case, spaces and punctuation, so
+// "Experience level" and "years_experience" both work
+const COLUMN_BY_HEADER = new Map<string, string>(SKILL_COLUMNS.map((column) => [headerKey(column), column]));
+
+export class SkillImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SkillImportError";
+  }
+}
+
+function headerKey(header: string) {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new SkillImportError("The CSV file has an unclosed quote");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines aren't rows
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Undoes the quote our exports put in front of cells that look like formulas
+function csvValue(cell: string): string {
+  const text = cell.trim();
+  return /^'[=+\-@]/.test(text) ? text.slice(1) : text;
+}
+
+function csvRecords(content: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((h) => COLUMN_BY_HEADER.get(headerKey(h)));
+  if (!columns.includes("name")) {
+    throw new SkillImportError(`The first row must be a header naming the columns: ${SKILL_COLUMNS.join(", ")}`);
+  }
+
+  return rows.map((cells) => {
+    const record: Record<string, unknown> = {};
+    for (let index = 0; index < columns.length; index++) {
+      const column = columns[index];
+      const value = csvValue(cells[index] ?? "");
+      if (!column || value === "") {
+        continue;
+      }
+      if (column === "tags") {
+        record.tags = value.split(";").map((t) => t.trim()).filter(Boolean);
+      } else if (column === "yearsExperience") {
+        // Left as text when it isn't a number, so validation can say so
+        record.yearsExperience = /^\d+$/.test(value) ? Number(value) : value;
+      } else {
+        record[column] = value;
+      }
+    }
+    return record;
+  });
+}
+
+function jsonRecords(content: string): Record<string, unknown>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new SkillImportError("The file is not valid JSON");
+  }
+
+  // Either a list of skills or an object with one, like our exports
+  const list = Array.isArray(parsed) ? parsed : (parsed as { skills?: unknown } | null)?.skills;
+  if (!Array.isArray(list)) {
+    throw new SkillImportError("Expected a list of skills");
+  }
+  return list.map((item) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      return {};
+    }
+    // Nulls, as in our exports, mean the field was left out
+    return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== null));
+  });
+}
+
+// One unvalidated record per skill in the file, in file order
+export function parseSkillImport(format: SkillImportFormat, content: string): Record<string, unknown>[] {
+  const records = format === "csv" ? csvRecords(content) : jsonRecords(content);
+  if (records.length === 0) {
+    throw new SkillImportError("The file has no skills in it");
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new SkillImportError(`Import at most ${MAX_IMPORT_ROWS} skills at a time`);
+  }
+  return records;
+}
+
+function exportRows(skills: SkillWithTags[]) {
+  return skills.map((skill) => ({
+    name: skill.name,
+    description: skill.description,
+    category: skill.category,
+    type: skill.type,
+    experienceLevel: skill.experienceLevel,
+    yearsExperience: skill.yearsExperience,
+    tags: skill.tags.map((t) => t.name),
+  }));
+}
+
+// Skills in the layout parseSkillImport reads back
+export function exportSkills(format: SkillImportFormat, skills: SkillWithTags[]): string {
+  const rows = exportRows(skills);
+  if (format === "json") {
+    return JSON.stringify({ skills: rows }, null, 2);
+  }
+  return rows.length > 0 ? toCsv(rows) : `${SKILL_COLUMNS.join(",")}\r\n`;
+}
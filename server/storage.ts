@@ -1,13 +1,76 @@
 import { 
-  users, skills, sessions, reviews,
+  users, skills, sessions, reviews, passwordResetTokens, emailVerificationTokens, siteSettings, userSessions, dataExports,
+  userIdentities, apiTokens, availabilityWindows, availabilityExceptions, skillRevisions, categories, tags, skillTags,
+  skillEvidence, skillEndorsements, skillSearchDocuments,
   type User, type InsertUser, 
-  type Skill, type InsertSkill,
+  type Skill, type InsertSkill, type SkillRevision, type SkillDetails,
   type Session, type InsertSession,
   type Review, type InsertReview,
-  type SkillWithUser, type SessionWithDetails
+  type SkillWithUser, type SessionWithDetails, type ReviewWithReviewer,
+  type PasswordResetToken, type EmailVerificationToken,
+  type UserSession, type DataExport, type UserIdentity, type ApiToken,
+  type AvailabilityWindow, type AvailabilityException, type Category,
+  type Tag, type TagInfo, type TagSummary, type SkillWithTags, type SkillEvidence, type SkillSort,
+  type SkillSearchHit,
+  SESSION_SLOT_MINUTES,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, ilike, or, and, sql, desc } from "drizzle-orm";
+import {
+  SEARCH_CONFIG,
+  SEARCH_DOCUMENT_SQL,
+  FUZZY_MATCH_THRESHOLD,
+  prefixTsQuery,
+  headlineOptions,
+  highlightParts,
+} from "./search";
+import { eq, like, ilike, or, and, sql, asc, desc, gt, gte, lt, lte, isNull, ne, inArray, type SQL } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+
+// Columns that are safe to join into responses other users can see.
+// Never add password or email here.
+type PublicUserColumnName = "id" | "username" | "fullName" | "bio" | "avatarUrl" | "timeZone" | "createdAt";
+
+function publicUserColumns<T extends Record<PublicUserColumnName, AnyPgColumn>>(table: T): Pick<T, PublicUserColumnName> {
+  return {
+    id: table.id,
+    username: table.username,
+    fullName: table.fullName,
+    bio: table.bio,
+    avatarUrl: table.avatarUrl,
+    timeZone: table.timeZone,
+    createdAt: table.createdAt,
+  };
+}
+
+export interface SkillSearchOptions {
+  query?: string;
+  categorySlugs?: string[];
+  tagSlugs?: string[]; // skills must have all of them
+  type?: string;
+  excludeUserId?: string;
+  sort: SkillSort;
+  limit: number;
+  after?: SkillSearchCursor;
+}
+
+// Where a page of results ended: the last skill's sort value, as text, and id
+export interface SkillSearchCursor {
+  value: string;
+  id: string;
+}
+
+export interface SkillSearchResult {
+  skills: SkillSearchHit[];
+  total: number; // across all pages
+  next: SkillSearchCursor | null;
+}
+
+// How many learners have endorsed a skill, and how many of them did so since
+// its proficiency last changed
+export interface SkillEndorsementCounts {
+  total: number;
+  sinceProficiencyChange: number;
+}
 
 export interface IStorage {
   // Users
@@ -19,22 +82,103 @@ export interface IStorage {
   updateUser(id: string, data: Partial<User>): Promise<User | undefined>;
   deleteUser(id: string): Promise<void>;
   
+  // Password resets
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  
+  // Email verification
+  createEmailVerificationToken(userId: string, email: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken>;
+  consumeEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined>;
+  
+  // Login sessions
+  getUserSessions(userId: string): Promise<UserSession[]>;
+  deleteUserSession(sid: string): Promise<void>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<void>;
+  
+  // Data exports
+  createDataExport(userId: string, expiresAt: Date): Promise<DataExport>;
+  getDataExport(id: string): Promise<DataExport | undefined>;
+  getDataExportsByUserId(userId: string): Promise<DataExport[]>;
+  updateDataExport(id: string, data: Partial<DataExport>): Promise<DataExport | undefined>;
+  deleteDataExport(id: string): Promise<void>;
+  
+  // Single sign-on identities
+  getUserIdentity(issuer: string, subject: string): Promise<UserIdentity | undefined>;
+  createUserIdentity(identity: Pick<UserIdentity, "userId" | "issuer" | "subject" | "email">): Promise<UserIdentity>;
+  updateUserIdentity(id: string, data: Partial<UserIdentity>): Promise<UserIdentity | undefined>;
+  
+  // Personal access tokens
+  createApiToken(token: Pick<ApiToken, "userId" | "name" | "tokenHash" | "prefix" | "scopes" | "expiresAt">): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensByUserId(userId: string): Promise<ApiToken[]>;
+  touchApiToken(id: string): Promise<void>;
+  deleteApiToken(id: string, userId: string): Promise<boolean>;
+  
+  // Tutor availability
+  getAvailabilityWindows(userId: string): Promise<AvailabilityWindow[]>;
+  replaceAvailabilityWindows(
+    userId: string,
+    timeZone: string,
+    windows: Pick<AvailabilityWindow, "weekday" | "startMinute" | "endMinute">[],
+  ): Promise<AvailabilityWindow[]>;
+  getAvailabilityExceptions(userId: string): Promise<AvailabilityException[]>;
+  createAvailabilityException(exception: Pick<AvailabilityException, "userId" | "date" | "reason">): Promise<AvailabilityException>;
+  deleteAvailabilityException(id: string, userId: string): Promise<boolean>;
+  
+  // Site settings
+  getSetting(key: string): Promise<string | undefined>;
+  setSetting(key: string, value: string): Promise<void>;
+  
+  // Skill categories
+  getCategories(): Promise<Category[]>;
+  getCategory(id: string): Promise<Category | undefined>;
+  getCategoryBySlug(slug: string): Promise<Category | undefined>;
+  createCategory(category: Pick<Category, "slug" | "name" | "icon" | "color" | "parentId" | "sortOrder">): Promise<Category>;
+  updateCategory(id: string, data: Partial<Pick<Category, "name" | "icon" | "color" | "parentId" | "sortOrder">>): Promise<Category | undefined>;
+  deleteCategory(id: string): Promise<void>;
+  countSkillsInCategory(slug: string): Promise<number>;
+  
   // Skills
   getSkill(id: string): Promise<Skill | undefined>;
-  getSkillsByUserId(userId: string): Promise<Skill[]>;
+  getSkillsByUserId(userId: string, options?: { includeArchived?: boolean }): Promise<Skill[]>;
   createSkill(skill: InsertSkill): Promise<Skill>;
-  deleteSkill(id: string): Promise<void>;
-  searchSkills(query?: string, category?: string): Promise<SkillWithUser[]>;
+  createSkillsWithTags(skills: (InsertSkill & { tags: TagInfo[] })[]): Promise<SkillWithTags[]>;
+  updateSkill(id: string, data: Partial<SkillDetails>): Promise<Skill | undefined>;
+  getSkillRevisions(skillId: string): Promise<SkillRevision[]>;
+  archiveSkill(id: string, archivedBy: string): Promise<Skill | undefined>;
+  restoreSkill(id: string): Promise<Skill | undefined>;
+  searchSkills(options: SkillSearchOptions): Promise<SkillSearchResult>;
+  
+  // Proficiency evidence and verification
+  getEvidenceForSkills(skillIds: string[]): Promise<Map<string, SkillEvidence[]>>;
+  createSkillEvidence(evidence: Pick<SkillEvidence, "skillId" | "kind" | "title" | "url">): Promise<SkillEvidence>;
+  deleteSkillEvidence(id: string, skillId: string): Promise<boolean>;
+  hasCompletedSession(requesterId: string, providerId: string, skillId: string): Promise<boolean>;
+  addSkillEndorsement(skillId: string, userId: string): Promise<SkillEndorsementCounts | undefined>;
+  verifySkill(id: string, verifiedBy: string | null): Promise<Skill | undefined>;
+  unverifySkill(id: string): Promise<Skill | undefined>;
+  
+  // Tags
+  getTagsForSkills(skillIds: string[]): Promise<Map<string, TagInfo[]>>;
+  setSkillTags(skillId: string, tags: TagInfo[]): Promise<TagInfo[]>;
+  getTag(slug: string): Promise<TagSummary | undefined>;
+  searchTags(slugPrefix: string, limit: number): Promise<TagSummary[]>;
   
   // Sessions
   getSession(id: string): Promise<Session | undefined>;
   getSessionsByUserId(userId: string): Promise<SessionWithDetails[]>;
-  createSession(session: InsertSession): Promise<Session>;
+  // Undefined when the session has a time that clashes with one the provider already has
+  createSession(session: InsertSession): Promise<Session | undefined>;
   updateSession(id: string, data: Partial<Session>): Promise<Session | undefined>;
+  getScheduledSessions(userId: string, from: Date, to: Date): Promise<Session[]>;
+  getSessionsDueForReminder(before: Date): Promise<Session[]>;
+  claimSessionReminder(id: string): Promise<boolean>;
   
   // Reviews
   createReview(review: InsertReview): Promise<Review>;
   getReviewsByUserId(userId: string): Promise<Review[]>;
+  getReviewsByReviewerId(reviewerId: string): Promise<Review[]>;
+  getRecentReviewsWithReviewer(userId: string, limit: number): Promise<ReviewWithReviewer[]>;
   
   // Stats
   getStats(): Promise<{
@@ -74,6 +218,10 @@ export class DatabaseStorage implements IStorage {
 
   async updateUser(id: string, data: Partial<User>): Promise<User | undefined> {
     const [user] = await db.update(users).set(data).where(eq(users.id, id)).returning();
+    // Tutor names are searchable
+    if (user && data.fullName !== undefined) {
+      await this.refreshSearchDocuments(eq(skills.userId, id));
+    }
     return user || undefined;
   }
 
@@ -81,69 +229,683 @@ export class DatabaseStorage implements IStorage {
     await db.delete(users).where(eq(users.id, id));
   }
 
+  // Password resets
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    // Only the most recently issued link should work
+    await db.delete(passwordResetTokens).where(
+      and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt))
+    );
+    const [token] = await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt }).returning();
+    return token;
+  }
+
+  // Marks the token used and returns it, or undefined if it is unknown, expired or already used.
+  // Doing this in a single UPDATE keeps two concurrent requests from both succeeding.
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token || undefined;
+  }
+
+  // Email verification
+  async createEmailVerificationToken(userId: string, email: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken> {
+    await db.delete(emailVerificationTokens).where(
+      and(eq(emailVerificationTokens.userId, userId), isNull(emailVerificationTokens.usedAt))
+    );
+    const [token] = await db.insert(emailVerificationTokens).values({ userId, email, tokenHash, expiresAt }).returning();
+    return token;
+  }
+
+  async consumeEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined> {
+    const [token] = await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(emailVerificationTokens.tokenHash, tokenHash),
+        isNull(emailVerificationTokens.usedAt),
+        gt(emailVerificationTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token || undefined;
+  }
+
+  // Login sessions
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return db
+      .select()
+      .from(userSessions)
+      .where(and(
+        sql`${userSessions.sess}->>'userId' = ${userId}`,
+        gt(userSessions.expire, new Date()),
+      ))
+      .orderBy(desc(userSessions.expire));
+  }
+
+  async deleteUserSession(sid: string): Promise<void> {
+    await db.delete(userSessions).where(eq(userSessions.sid, sid));
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<void> {
+    await db.delete(userSessions).where(and(
+      sql`${userSessions.sess}->>'userId' = ${userId}`,
+      exceptSid ? ne(userSessions.sid, exceptSid) : undefined,
+    ));
+  }
+
+  // Data exports
+  async createDataExport(userId: string, expiresAt: Date): Promise<DataExport> {
+    const [dataExport] = await db.insert(dataExports).values({ userId, expiresAt }).returning();
+    return dataExport;
+  }
+
+  async getDataExport(id: string): Promise<DataExport | undefined> {
+    const [dataExport] = await db.select().from(dataExports).where(eq(dataExports.id, id));
+    return dataExport || undefined;
+  }
+
+  async getDataExportsByUserId(userId: string): Promise<DataExport[]> {
+    return db.select().from(dataExports).where(eq(dataExports.userId, userId)).orderBy(desc(dataExports.createdAt));
+  }
+
+  async updateDataExport(id: string, data: Partial<DataExport>): Promise<DataExport | undefined> {
+    const [dataExport] = await db.update(dataExports).set(data).where(eq(dataExports.id, id)).returning();
+    return dataExport || undefined;
+  }
+
+  async deleteDataExport(id: string): Promise<void> {
+    await db.delete(dataExports).where(eq(dataExports.id, id));
+  }
+
+  // Single sign-on identities
+  async getUserIdentity(issuer: string, subject: string): Promise<UserIdentity | undefined> {
+    const [identity] = await db.select().from(userIdentities).where(
+      and(eq(userIdentities.issuer, issuer), eq(userIdentities.subject, subject))
+    );
+    return identity || undefined;
+  }
+
+  async createUserIdentity(identity: Pick<UserIdentity, "userId" | "issuer" | "subject" | "email">): Promise<UserIdentity> {
+    const [created] = await db.insert(userIdentities).values(identity).returning();
+    return created;
+  }
+
+  async updateUserIdentity(id: string, data: Partial<UserIdentity>): Promise<UserIdentity | undefined> {
+    const [identity] = await db.update(userIdentities).set(data).where(eq(userIdentities.id, id)).returning();
+    return identity || undefined;
+  }
+
+  // Personal access tokens
+  async createApiToken(token: Pick<ApiToken, "userId" | "name" | "tokenHash" | "prefix" | "scopes" | "expiresAt">): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async getApiTokensByUserId(userId: string): Promise<ApiToken[]> {
+    return db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async touchApiToken(id: string): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  // Tutor availability
+  async getAvailabilityWindows(userId: string): Promise<AvailabilityWindow[]> {
+    return db
+      .select()
+      .from(availabilityWindows)
+      .where(eq(availabilityWindows.userId, userId))
+      .orderBy(asc(availabilityWindows.weekday), asc(availabilityWindows.startMinute));
+  }
+
+  async replaceAvailabilityWindows(
+    userId: string,
+    timeZone: string,
+    windows: Pick<AvailabilityWindow, "weekday" | "startMinute" | "endMinute">[],
+  ): Promise<AvailabilityWindow[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(availabilityWindows).where(eq(availabilityWindows.userId, userId));
+      if (windows.length === 0) {
+        return [];
+      }
+      return tx
+        .insert(availabilityWindows)
+        .values(windows.map((window) => ({ ...window, userId, timeZone })))
+        .returning();
+    });
+  }
+
+  async getAvailabilityExceptions(userId: string): Promise<AvailabilityException[]> {
+    return db
+      .select()
+      .from(availabilityExceptions)
+      .where(eq(availabilityExceptions.userId, userId))
+      .orderBy(asc(availabilityExceptions.date));
+  }
+
+  async createAvailabilityException(exception: Pick<AvailabilityException, "userId" | "date" | "reason">): Promise<AvailabilityException> {
+    const [created] = await db
+      .insert(availabilityExceptions)
+      .values(exception)
+      .onConflictDoUpdate({
+        target: [availabilityExceptions.userId, availabilityExceptions.date],
+        set: { reason: exception.reason },
+      })
+      .returning();
+    return created;
+  }
+
+  async deleteAvailabilityException(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(availabilityExceptions)
+      .where(and(eq(availabilityExceptions.id, id), eq(availabilityExceptions.userId, userId)))
+      .returning({ id: availabilityExceptions.id });
+    return deleted.length > 0;
+  }
+
+  // Site settings
+  async getSetting(key: string): Promise<string | undefined> {
+    const [setting] = await db.select().from(siteSettings).where(eq(siteSettings.key, key));
+    return setting?.value;
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    await db
+      .insert(siteSettings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: siteSettings.key, set: { value, updatedAt: new Date() } });
+  }
+
+  // Skill categories
+  async getCategories(): Promise<Category[]> {
+    return db.select().from(categories).orderBy(asc(categories.sortOrder), asc(categories.name));
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category || undefined;
+  }
+
+  async getCategoryBySlug(slug: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.slug, slug));
+    return category || undefined;
+  }
+
+  async createCategory(
+    category: Pick<Category, "slug" | "name" | "icon" | "color" | "parentId" | "sortOrder">,
+  ): Promise<Category> {
+    const [created] = await db.insert(categories).values(category).returning();
+    return created;
+  }
+
+  async updateCategory(
+    id: string,
+    data: Partial<Pick<Category, "name" | "icon" | "color" | "parentId" | "sortOrder">>,
+  ): Promise<Category | undefined> {
+    const [category] = await db.update(categories).set(data).where(eq(categories.id, id)).returning();
+    return category || undefined;
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    await db.delete(categories).where(eq(categories.id, id));
+  }
+
+  // Archived skills count too, since restoring one needs its category to exist
+  async countSkillsInCategory(slug: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(skills).where(eq(skills.category, slug));
+    return row?.count ?? 0;
+  }
+
   // Skills
   async getSkill(id: string): Promise<Skill | undefined> {
     const [skill] = await db.select().from(skills).where(eq(skills.id, id));
     return skill || undefined;
   }
 
-  async getSkillsByUserId(userId: string): Promise<Skill[]> {
-    return db.select().from(skills).where(eq(skills.userId, userId)).orderBy(desc(skills.createdAt));
+  async getSkillsByUserId(userId: string, options: { includeArchived?: boolean } = {}): Promise<Skill[]> {
+    return db
+      .select()
+      .from(skills)
+      .where(and(eq(skills.userId, userId), options.includeArchived ? undefined : isNull(skills.archivedAt)))
+      .orderBy(desc(skills.createdAt));
   }
 
   async createSkill(skill: InsertSkill): Promise<Skill> {
     const [newSkill] = await db.insert(skills).values(skill).returning();
+    await this.refreshSearchDocuments(eq(skills.id, newSkill.id));
     return newSkill;
   }
 
-  async deleteSkill(id: string): Promise<void> {
-    await db.delete(skills).where(eq(skills.id, id));
+  // Rebuilds the full-text search documents of the skills matching `where`.
+  // Called whenever a skill's name, description or tags or its tutor's name change.
+  private async refreshSearchDocuments(where: SQL) {
+    await db.execute(sql`
+      INSERT INTO ${skillSearchDocuments} (skill_id, document)
+      SELECT ${skills.id}, ${sql.raw(SEARCH_DOCUMENT_SQL)} FROM ${skills} WHERE ${where}
+      ON CONFLICT (skill_id) DO UPDATE SET document = excluded.document
+    `);
   }
 
-  async searchSkills(query?: string, category?: string): Promise<SkillWithUser[]> {
-    let baseQuery = db
-      .select({
-        id: skills.id,
-        userId: skills.userId,
-        name: skills.name,
-        description: skills.description,
-        category: skills.category,
-        type: skills.type,
-        experienceLevel: skills.experienceLevel,
-        createdAt: skills.createdAt,
-        user: {
-          id: users.id,
-          username: users.username,
-          password: users.password,
-          email: users.email,
-          fullName: users.fullName,
-          bio: users.bio,
-          avatarUrl: users.avatarUrl,
-          isAdmin: users.isAdmin,
-          createdAt: users.createdAt,
-        },
-      })
-      .from(skills)
-      .innerJoin(users, eq(skills.userId, users.id))
-      .orderBy(desc(skills.createdAt));
+  // For bulk imports: all of the skills are created, or none are
+  async createSkillsWithTags(newSkills: (InsertSkill & { tags: TagInfo[] })[]): Promise<SkillWithTags[]> {
+    if (newSkills.length === 0) {
+      return [];
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const created = await tx.insert(skills).values(newSkills.map(({ tags: _tags, ...skill }) => skill)).returning();
+
+      // Existing tags keep their spelling; a new one takes the first it was given
+      const newTags = new Map(newSkills.flatMap((skill) => skill.tags).reverse().map((t) => [t.slug, t]));
+      const tagsBySlug = new Map<string, Tag>();
+      if (newTags.size > 0) {
+        await tx.insert(tags).values(Array.from(newTags.values())).onConflictDoNothing({ target: tags.slug });
+        const stored = await tx.select().from(tags).where(inArray(tags.slug, Array.from(newTags.keys())));
+        for (const tag of stored) {
+          tagsBySlug.set(tag.slug, tag);
+        }
+      }
 
-    const results = await baseQuery;
-    
-    let filtered = results;
-    
-    if (query) {
-      const lowerQuery = query.toLowerCase();
-      filtered = filtered.filter(
-        (s) => s.name.toLowerCase().includes(lowerQuery) || 
-               (s.description && s.description.toLowerCase().includes(lowerQuery))
+      const links: { skillId: string; tagId: string }[] = [];
+      const result: SkillWithTags[] = [];
+      for (let index = 0; index < created.length; index++) {
+        const skill = created[index];
+        const skillTagList = newSkills[index].tags
+          .map((t) => tagsBySlug.get(t.slug))
+          .filter((t): t is Tag => t !== undefined)
+          .sort((a, b) => a.name.localeCompare(b.name));
+        links.push(...skillTagList.map((tag) => ({ skillId: skill.id, tagId: tag.id })));
+        result.push({ ...skill, tags: skillTagList.map(({ slug, name }) => ({ slug, name })) });
+      }
+      if (links.length > 0) {
+        await tx.insert(skillTags).values(links);
+      }
+      return result;
+    });
+    await this.refreshSearchDocuments(inArray(skills.id, result.map((skill) => skill.id)));
+    return result;
+  }
+
+  // Saves the current version as a revision, then applies the edit
+  async updateSkill(id: string, data: Partial<SkillDetails>): Promise<Skill | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(skills).where(eq(skills.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      await tx.insert(skillRevisions).values({
+        skillId: current.id,
+        revision: current.revision,
+        name: current.name,
+        description: current.description,
+        category: current.category,
+        type: current.type,
+        experienceLevel: current.experienceLevel,
+        yearsExperience: current.yearsExperience,
+      });
+
+      // Verification vouched for the old proficiency, so a new one has to be
+      // checked again. Endorsements are kept, since they record sessions that
+      // happened, but only new ones count towards verifying it again.
+      const proficiencyChanged = (["experienceLevel", "yearsExperience"] as const).some(
+        (key) => key in data && data[key] !== current[key],
       );
+
+      const [updated] = await tx
+        .update(skills)
+        .set({
+          ...data,
+          ...(proficiencyChanged ? { verifiedAt: null, verifiedBy: null, proficiencyChangedAt: sql`now()` } : {}),
+          revision: current.revision + 1,
+          updatedAt: new Date(),
+        })
+        .where(eq(skills.id, id))
+        .returning();
+      return updated;
+    });
+    if (updated) {
+      await this.refreshSearchDocuments(eq(skills.id, id));
+    }
+    return updated;
+  }
+
+  async getSkillRevisions(skillId: string): Promise<SkillRevision[]> {
+    return db.select().from(skillRevisions).where(eq(skillRevisions.skillId, skillId)).orderBy(desc(skillRevisions.revision));
+  }
+
+  async archiveSkill(id: string, archivedBy: string): Promise<Skill | undefined> {
+    const [skill] = await db
+      .update(skills)
+      .set({ archivedAt: new Date(), archivedBy })
+      .where(eq(skills.id, id))
+      .returning();
+    return skill || undefined;
+  }
+
+  async restoreSkill(id: string): Promise<Skill | undefined> {
+    const [skill] = await db
+      .update(skills)
+      .set({ archivedAt: null, archivedBy: null })
+      .where(eq(skills.id, id))
+      .returning();
+    return skill || undefined;
+  }
+
+  async searchSkills(options: SkillSearchOptions): Promise<SkillSearchResult> {
+    const text = options.query?.trim() || undefined;
+    const config = sql.raw(`'${SEARCH_CONFIG}'`);
+    const tsQueryText = text ? prefixTsQuery(text) : null;
+    const tsQuery = tsQueryText ? sql`to_tsquery(${config}, ${tsQueryText})` : undefined;
+
+    const conditions: (SQL | undefined)[] = [isNull(skills.archivedAt)];
+    if (text) {
+      // A full-text match on any field, or a name close enough to count as a typo
+      const fullTextMatches = tsQuery
+        ? db
+            .select({ skillId: skillSearchDocuments.skillId })
+            .from(skillSearchDocuments)
+            .where(sql`${skillSearchDocuments.document} @@ ${tsQuery}`)
+        : undefined;
+      conditions.push(or(
+        fullTextMatches ? inArray(skills.id, fullTextMatches) : undefined,
+        sql`${text} <% ${skills.name}`,
+      ));
+    }
+    if (options.categorySlugs) {
+      conditions.push(inArray(skills.category, options.categorySlugs));
+    }
+    if (options.tagSlugs) {
+      const tagged = db
+        .select({ skillId: skillTags.skillId })
+        .from(skillTags)
+        .innerJoin(tags, eq(tags.id, skillTags.tagId))
+        .where(inArray(tags.slug, options.tagSlugs))
+        .groupBy(skillTags.skillId)
+        .having(sql`count(*) = ${options.tagSlugs.length}`);
+      conditions.push(inArray(skills.id, tagged));
+    }
+    if (options.type) {
+      conditions.push(eq(skills.type, options.type));
+    }
+    if (options.excludeUserId) {
+      conditions.push(ne(skills.userId, options.excludeUserId));
+    }
+    const filters = and(...conditions);
+
+    // Tutors' average rating and how often each skill has been booked
+    const ratings = db
+      .select({ userId: reviews.revieweeId, average: sql<string>`avg(${reviews.rating})`.as("average") })
+      .from(reviews)
+      .groupBy(reviews.revieweeId)
+      .as("ratings");
+    const bookings = db
+      .select({ skillId: sessions.skillId, count: sql<number>`count(*)::int`.as("count") })
+      .from(sessions)
+      .where(ne(sessions.status, "cancelled"))
+      .groupBy(sessions.skillId)
+      .as("bookings");
+    const relevance = text
+      ? sql`coalesce(ts_rank(${skillSearchDocuments.document}, ${tsQuery ?? sql`''::tsquery`}), 0) + word_similarity(${text}, ${skills.name})`
+      : sql`${skills.createdAt}`;
+    const sortKey = {
+      relevance,
+      newest: sql`${skills.createdAt}`,
+      rating: sql`coalesce(${ratings.average}, 0)`,
+      popularity: sql`coalesce(${bookings.count}, 0)`,
+    }[options.sort];
+
+    // Keyset pagination: carry on after the last skill of the previous page,
+    // using the id to break ties
+    const after = options.after;
+    const afterCursor = after
+      ? or(sql`${sortKey} < ${after.value}`, and(sql`${sortKey} = ${after.value}`, lt(skills.id, after.id)))
+      : undefined;
+
+    // Matches marked in the name, and in a snippet of the description
+    const nameHighlight = tsQuery
+      ? sql<string | null>`ts_headline(${config}, ${skills.name}, ${tsQuery}, ${headlineOptions(false)})`
+      : sql<string | null>`null`;
+    const descriptionHighlight = tsQuery
+      ? sql<string | null>`ts_headline(${config}, ${skills.description}, ${tsQuery}, ${headlineOptions(true)})`
+      : sql<string | null>`null`;
+
+    const { rows, total } = await db.transaction(async (tx) => {
+      // Scoped to this transaction; lets the trigram index serve the <% above
+      await tx.execute(sql`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(FUZZY_MATCH_THRESHOLD)}, true)`);
+
+      let pageQuery = tx
+        .select({
+          skill: skills,
+          user: publicUserColumns(users),
+          sortValue: sql<string>`(${sortKey})::text`,
+          nameHighlight,
+          descriptionHighlight,
+        })
+        .from(skills)
+        .innerJoin(users, eq(skills.userId, users.id))
+        .$dynamic();
+      if (options.sort === "relevance" && text) {
+        pageQuery = pageQuery.leftJoin(skillSearchDocuments, eq(skillSearchDocuments.skillId, skills.id));
+      } else if (options.sort === "rating") {
+        pageQuery = pageQuery.leftJoin(ratings, eq(ratings.userId, skills.userId));
+      } else if (options.sort === "popularity") {
+        pageQuery = pageQuery.leftJoin(bookings, eq(bookings.skillId, skills.id));
+      }
+
+      const rows = await pageQuery
+        .where(and(filters, afterCursor))
+        .orderBy(desc(sortKey), desc(skills.id))
+        .limit(options.limit + 1); // one extra to tell whether there's another page
+      const [{ total }] = await tx.select({ total: sql<number>`count(*)::int` }).from(skills).where(filters);
+      return { rows, total };
+    });
+
+    const page = rows.slice(0, options.limit);
+    const tagsBySkill = await this.getTagsForSkills(page.map((row) => row.skill.id));
+    const last = page[page.length - 1];
+    return {
+      skills: page.map((row) => ({
+        ...row.skill,
+        user: row.user,
+        tags: tagsBySkill.get(row.skill.id) ?? [],
+        ...(text && {
+          highlight: {
+            name: highlightParts(row.nameHighlight ?? row.skill.name),
+            description: row.descriptionHighlight !== null ? highlightParts(row.descriptionHighlight) : null,
+          },
+        }),
+      })),
+      total,
+      next: rows.length > options.limit && last ? { value: last.sortValue, id: last.skill.id } : null,
+    };
+  }
+
+  // Proficiency evidence and verification
+  async getEvidenceForSkills(skillIds: string[]): Promise<Map<string, SkillEvidence[]>> {
+    const bySkill = new Map<string, SkillEvidence[]>();
+    if (skillIds.length === 0) {
+      return bySkill;
+    }
+
+    const rows = await db
+      .select()
+      .from(skillEvidence)
+      .where(inArray(skillEvidence.skillId, skillIds))
+      .orderBy(asc(skillEvidence.createdAt));
+    for (const evidence of rows) {
+      bySkill.set(evidence.skillId, [...(bySkill.get(evidence.skillId) ?? []), evidence]);
+    }
+    return bySkill;
+  }
+
+  async createSkillEvidence(evidence: Pick<SkillEvidence, "skillId" | "kind" | "title" | "url">): Promise<SkillEvidence> {
+    const [created] = await db.insert(skillEvidence).values(evidence).returning();
+    return created;
+  }
+
+  async deleteSkillEvidence(id: string, skillId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(skillEvidence)
+      .where(and(eq(skillEvidence.id, id), eq(skillEvidence.skillId, skillId)))
+      .returning({ id: skillEvidence.id });
+    return deleted.length > 0;
+  }
+
+  // A scheduled session the provider marked completed that has actually
+  // taken place
+  async hasCompletedSession(requesterId: string, providerId: string, skillId: string): Promise<boolean> {
+    const [session] = await db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(and(
+        eq(sessions.requesterId, requesterId),
+        eq(sessions.providerId, providerId),
+        eq(sessions.skillId, skillId),
+        eq(sessions.status, "completed"),
+        lte(sessions.scheduledAt, new Date()),
+      ))
+      .limit(1);
+    return !!session;
+  }
+
+  // The skill's endorsement counts with the new one, or undefined when the
+  // user had already endorsed it
+  async addSkillEndorsement(skillId: string, userId: string): Promise<SkillEndorsementCounts | undefined> {
+    return db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(skillEndorsements)
+        .values({ skillId, userId })
+        .onConflictDoNothing()
+        .returning({ id: skillEndorsements.id });
+      if (inserted.length === 0) {
+        return undefined;
+      }
+
+      const [skill] = await tx
+        .update(skills)
+        .set({ endorsementCount: sql`${skills.endorsementCount} + 1` })
+        .where(eq(skills.id, skillId))
+        .returning({ endorsementCount: skills.endorsementCount, proficiencyChangedAt: skills.proficiencyChangedAt });
+      if (!skill) {
+        return undefined;
+      }
+
+      let sinceProficiencyChange = skill.endorsementCount;
+      if (skill.proficiencyChangedAt) {
+        // Compared in the database, since both times come from its clock
+        const [{ count }] = await tx
+          .select({ count: sql<number>`count(*)::int` })
+          .from(skillEndorsements)
+          .innerJoin(skills, eq(skills.id, skillEndorsements.skillId))
+          .where(and(eq(skillEndorsements.skillId, skillId), gte(skillEndorsements.createdAt, skills.proficiencyChangedAt)));
+        sinceProficiencyChange = count;
+      }
+      return { total: skill.endorsementCount, sinceProficiencyChange };
+    });
+  }
+
+  async verifySkill(id: string, verifiedBy: string | null): Promise<Skill | undefined> {
+    const [skill] = await db
+      .update(skills)
+      .set({ verifiedAt: new Date(), verifiedBy })
+      .where(eq(skills.id, id))
+      .returning();
+    return skill || undefined;
+  }
+
+  async unverifySkill(id: string): Promise<Skill | undefined> {
+    const [skill] = await db
+      .update(skills)
+      .set({ verifiedAt: null, verifiedBy: null })
+      .where(eq(skills.id, id))
+      .returning();
+    return skill || undefined;
+  }
+
+  // Tags
+  async getTagsForSkills(skillIds: string[]): Promise<Map<string, TagInfo[]>> {
+    const bySkill = new Map<string, TagInfo[]>();
+    if (skillIds.length === 0) {
+      return bySkill;
     }
-    
-    if (category) {
-      filtered = filtered.filter((s) => s.category === category);
+
+    const rows = await db
+      .select({ skillId: skillTags.skillId, slug: tags.slug, name: tags.name })
+      .from(skillTags)
+      .innerJoin(tags, eq(skillTags.tagId, tags.id))
+      .where(inArray(skillTags.skillId, skillIds))
+      .orderBy(asc(tags.name));
+    for (const { skillId, ...tag } of rows) {
+      bySkill.set(skillId, [...(bySkill.get(skillId) ?? []), tag]);
     }
-    
-    return filtered;
+    return bySkill;
+  }
+
+  // Replaces a skill's tags, creating any that don't exist yet. A tag that
+  // already exists keeps its name, so the first spelling used sticks.
+  async setSkillTags(skillId: string, skillTagList: TagInfo[]): Promise<TagInfo[]> {
+    const saved = await db.transaction(async (tx) => {
+      await tx.delete(skillTags).where(eq(skillTags.skillId, skillId));
+      if (skillTagList.length === 0) {
+        return [];
+      }
+
+      await tx.insert(tags).values(skillTagList).onConflictDoNothing({ target: tags.slug });
+      const stored = await tx
+        .select()
+        .from(tags)
+        .where(inArray(tags.slug, skillTagList.map((t) => t.slug)))
+        .orderBy(asc(tags.name));
+      await tx.insert(skillTags).values(stored.map((tag) => ({ skillId, tagId: tag.id })));
+      return stored.map(({ slug, name }) => ({ slug, name }));
+    });
+    await this.refreshSearchDocuments(eq(skills.id, skillId));
+    return saved;
+  }
+
+  // Tags with how many active skills use them; archived skills don't count
+  private tagSummaries() {
+    return db
+      .select({ slug: tags.slug, name: tags.name, skillCount: sql<number>`count(${skills.id})::int` })
+      .from(tags)
+      .leftJoin(skillTags, eq(skillTags.tagId, tags.id))
+      .leftJoin(skills, and(eq(skills.id, skillTags.skillId), isNull(skills.archivedAt)))
+      .groupBy(tags.id)
+      .$dynamic();
+  }
+
+  async getTag(slug: string): Promise<TagSummary | undefined> {
+    const [tag] = await this.tagSummaries().where(eq(tags.slug, slug));
+    return tag || undefined;
+  }
+
+  // Tags whose slug starts with `slugPrefix`, most used first
+  async searchTags(slugPrefix: string, limit: number): Promise<TagSummary[]> {
+    // Slugs are only letters, digits and dashes, so there's nothing to escape
+    return this.tagSummaries()
+      .where(like(tags.slug, `${slugPrefix}%`))
+      .orderBy(desc(sql`count(${skills.id})`), asc(tags.name))
+      .limit(limit);
   }
 
   // Sessions
@@ -153,39 +915,90 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getSessionsByUserId(userId: string): Promise<SessionWithDetails[]> {
+    const requesters = alias(users, "requester");
+    const providers = alias(users, "provider");
+
     const results = await db
       .select({
         session: sessions,
-        requester: users,
+        requester: publicUserColumns(requesters),
+        provider: publicUserColumns(providers),
         skill: skills,
+        bookedRevision: skillRevisions,
+        endorsementId: skillEndorsements.id,
       })
       .from(sessions)
-      .innerJoin(users, eq(sessions.requesterId, users.id))
+      .innerJoin(requesters, eq(sessions.requesterId, requesters.id))
+      .innerJoin(providers, eq(sessions.providerId, providers.id))
       .innerJoin(skills, eq(sessions.skillId, skills.id))
+      // Set only when the skill has been edited since the session was requested
+      .leftJoin(skillRevisions, and(
+        eq(skillRevisions.skillId, sessions.skillId),
+        eq(skillRevisions.revision, sessions.skillRevision),
+      ))
+      .leftJoin(skillEndorsements, and(
+        eq(skillEndorsements.skillId, sessions.skillId),
+        eq(skillEndorsements.userId, sessions.requesterId),
+      ))
       .where(or(eq(sessions.requesterId, userId), eq(sessions.providerId, userId)))
       .orderBy(desc(sessions.createdAt));
 
-    const sessionDetails: SessionWithDetails[] = [];
-    
-    for (const row of results) {
-      const [provider] = await db.select().from(users).where(eq(users.id, row.session.providerId));
-      sessionDetails.push({
+    return results.map((row) => {
+      const booked = row.bookedRevision;
+      return {
         ...row.session,
         requester: row.requester,
-        provider: provider,
-        skill: row.skill,
-      });
-    }
-    
-    return sessionDetails;
+        provider: row.provider,
+        skill: booked
+          ? {
+              ...row.skill,
+              name: booked.name,
+              description: booked.description,
+              category: booked.category,
+              type: booked.type,
+              experienceLevel: booked.experienceLevel,
+              yearsExperience: booked.yearsExperience,
+              revision: booked.revision,
+            }
+          : row.skill,
+        skillEndorsed: row.endorsementId !== null,
+      };
+    });
   }
 
-  async createSession(session: InsertSession): Promise<Session> {
-    const [newSession] = await db.insert(sessions).values({
-      ...session,
-      status: "pending",
-    }).returning();
-    return newSession;
+  async createSession(session: InsertSession): Promise<Session | undefined> {
+    const { scheduledAt } = session;
+    if (!scheduledAt) {
+      const [newSession] = await db.insert(sessions).values({ ...session, status: "pending" }).returning();
+      return newSession;
+    }
+
+    return db.transaction(async (tx) => {
+      // Every booking locks both people's rows, in a fixed order, so two
+      // requests that involve the tutor are checked one after the other
+      const userIds = [session.requesterId, session.providerId].sort();
+      await tx.select({ id: users.id }).from(users).where(inArray(users.id, userIds)).orderBy(asc(users.id)).for("update");
+
+      // The same rule as the tutor's free slots: no overlap with a session
+      // they're in on either side
+      const slotMs = SESSION_SLOT_MINUTES * 60 * 1000;
+      const [clash] = await tx
+        .select({ id: sessions.id })
+        .from(sessions)
+        .where(and(
+          or(eq(sessions.requesterId, session.providerId), eq(sessions.providerId, session.providerId)),
+          inArray(sessions.status, ["pending", "accepted"]),
+          gt(sessions.scheduledAt, new Date(scheduledAt.getTime() - slotMs)),
+          lt(sessions.scheduledAt, new Date(scheduledAt.getTime() + slotMs)),
+        ))
+        .limit(1);
+      if (clash) {
+        return undefined;
+      }
+
+      const [newSession] = await tx.insert(sessions).values({ ...session, status: "pending" }).returning();
+      return newSession;
+    });
   }
 
   async updateSession(id: string, data: Partial<Session>): Promise<Session | undefined> {
@@ -193,6 +1006,45 @@ export class DatabaseStorage implements IStorage {
     return session || undefined;
   }
 
+  // Sessions the user takes part in, on either side, that still hold a time
+  // starting within [from, to)
+  async getScheduledSessions(userId: string, from: Date, to: Date): Promise<Session[]> {
+    return db
+      .select()
+      .from(sessions)
+      .where(and(
+        or(eq(sessions.requesterId, userId), eq(sessions.providerId, userId)),
+        inArray(sessions.status, ["pending", "accepted"]),
+        gte(sessions.scheduledAt, from),
+        lt(sessions.scheduledAt, to),
+      ))
+      .orderBy(asc(sessions.scheduledAt));
+  }
+
+  // Accepted sessions starting between now and `before` that haven't had a reminder
+  async getSessionsDueForReminder(before: Date): Promise<Session[]> {
+    return db
+      .select()
+      .from(sessions)
+      .where(and(
+        eq(sessions.status, "accepted"),
+        isNull(sessions.reminderSentAt),
+        gt(sessions.scheduledAt, new Date()),
+        lte(sessions.scheduledAt, before),
+      ))
+      .orderBy(asc(sessions.scheduledAt));
+  }
+
+  // Marks the reminder sent; false if another instance already claimed it
+  async claimSessionReminder(id: string): Promise<boolean> {
+    const claimed = await db
+      .update(sessions)
+      .set({ reminderSentAt: new Date() })
+      .where(and(eq(sessions.id, id), isNull(sessions.reminderSentAt)))
+      .returning({ id: sessions.id });
+    return claimed.length > 0;
+  }
+
   // Reviews
   async createReview(review: InsertReview): Promise<Review> {
     const [newReview] = await db.insert(reviews).values(review).returning();
@@ -203,15 +1055,33 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(reviews).where(eq(reviews.revieweeId, userId)).orderBy(desc(reviews.createdAt));
   }
 
+  async getReviewsByReviewerId(reviewerId: string): Promise<Review[]> {
+    return db.select().from(reviews).where(eq(reviews.reviewerId, reviewerId)).orderBy(desc(reviews.createdAt));
+  }
+
+  async getRecentReviewsWithReviewer(userId: string, limit: number): Promise<ReviewWithReviewer[]> {
+    const results = await db
+      .select({ review: reviews, reviewer: publicUserColumns(users) })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.reviewerId, users.id))
+      .where(eq(reviews.revieweeId, userId))
+      .orderBy(desc(reviews.createdAt))
+      .limit(limit);
+
+    return results.map((row) => ({ ...row.review, reviewer: row.reviewer }));
+  }
+
   // Stats
   async getStats() {
     const allUsers = await db.select().from(users);
-    const allSkills = await db.select().from(skills);
+    const allSkills = await db.select().from(skills).where(isNull(skills.archivedAt));
     const allSessions = await db.select().from(sessions);
+    const categoryNames = new Map((await this.getCategories()).map((c) => [c.slug, c.name]));
 
     const skillsByCategory: Record<string, number> = {};
     for (const skill of allSkills) {
-      skillsByCategory[skill.category] = (skillsByCategory[skill.category] || 0) + 1;
+      const name = categoryNames.get(skill.category) ?? skill.category;
+      skillsByCategory[name] = (skillsByCategory[name] || 0) + 1;
     }
 
     const sessionsByStatus: Record<string, number> = {};
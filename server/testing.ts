@@ -0,0 +1,131 @@
+import express from "express";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { CSRF_HEADER } from "./security";
+
+// Helpers for the *.test.ts files, which run with `npm test`.
+//
+// Tests that need a database use the Postgres at TEST_DATABASE_URL and are
+// skipped without one. Each test file starts by dropping and recreating the
+// public schema, so never point it at a database whose data you want to keep.
+
+export const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+// For describe()'s skip option
+export const skipWithoutDatabase = testDatabaseUrl ? false : "TEST_DATABASE_URL is not set";
+
+// Builds an empty schema from shared/schema.ts, the way db:push would, then
+// runs the startup migrations. Modules that use the database are imported
+// only after DATABASE_URL points at the test database.
+export async function setupTestDatabase() {
+  if (!testDatabaseUrl) {
+    throw new Error("TEST_DATABASE_URL must be set");
+  }
+  process.env.DATABASE_URL = testDatabaseUrl;
+
+  const { pool } = await import("./db");
+  const { generateDrizzleJson, generateMigration } = await import("drizzle-kit/api");
+  const schema = await import("@shared/schema");
+  const { runDataMigrations } = await import("./migrations");
+
+  await pool.query("DROP SCHEMA IF EXISTS public CASCADE");
+  await pool.query("CREATE SCHEMA public");
+  // Indexes in the schema use pg_trgm, which db:push expects to already exist
+  await pool.query("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await pool.query(statement);
+  }
+  await runDataMigrations();
+
+  const { storage } = await import("./storage");
+  return { pool, storage };
+}
+
+// The API on a random local port, with everything registerRoutes sets up
+export async function startTestServer() {
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  const httpServer = createServer(app);
+  await registerRoutes(httpServer, app);
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+
+  const { port } = httpServer.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => httpServer.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: unknown;
+}
+
+// A browser stand-in: keeps the session cookie and sends the CSRF token on
+// state-changing requests, like the client's apiRequest
+export class TestAgent {
+  private cookie: string | undefined;
+  private csrfToken: string | undefined;
+
+  constructor(private baseUrl: string) {}
+
+  async request(method: string, path: string, body?: unknown): Promise<TestResponse> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+    if (!["GET", "HEAD"].includes(method)) {
+      headers[CSRF_HEADER] = await this.getCsrfToken();
+    }
+    return this.send(method, path, headers, body);
+  }
+
+  get(path: string) {
+    return this.request("GET", path);
+  }
+
+  post(path: string, body: unknown = {}) {
+    return this.request("POST", path, body);
+  }
+
+  async login(username: string, password: string) {
+    const response = await this.post("/api/auth/login", { username, password });
+    if (response.status !== 200) {
+      throw new Error(`Login as ${username} failed with ${response.status}: ${JSON.stringify(response.body)}`);
+    }
+    return response;
+  }
+
+  private async getCsrfToken() {
+    if (!this.csrfToken) {
+      const response = await this.send("GET", "/api/auth/csrf", {});
+      this.csrfToken = (response.body as { csrfToken: string }).csrfToken;
+    }
+    return this.csrfToken;
+  }
+
+  private async send(method: string, path: string, headers: Record<string, string>, body?: unknown): Promise<TestResponse> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: { ...headers, ...(this.cookie ? { Cookie: this.cookie } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      redirect: "manual",
+    });
+    // Logging in starts a new session, so the cookie changes
+    const setCookie = response.headers.getSetCookie()[0];
+    if (setCookie) {
+      this.cookie = setCookie.split(";")[0];
+    }
+
+    const text = await response.text();
+    let parsed: unknown = text;
+    try {
+      parsed = text ? JSON.parse(text) : undefined;
+    } catch {
+      // not JSON
+    }
+    return { status: response.status, headers: response.headers, body: parsed };
+  }
+}
@@ -0,0 +1,10 @@
+import { randomBytes, createHash } from "crypto";
+
+// Generates a URL-safe random token to hand to the user. Only its hash is stored.
+export function generateToken(bytes = 32): string {
+  return randomBytes(bytes).toString("base64url");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
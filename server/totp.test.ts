@@ -0,0 +1,126 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import bcrypt from "bcrypt";
+import { base32Decode, base32Encode, generateTotp, generateTotpSecret, timeStep, verifyTotp } from "./totp";
+import { skipWithoutDatabase, setupTestDatabase, startTestServer, TestAgent } from "./testing";
+
+// The SHA-1 seed from RFC 6238 appendix B
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+// RFC 6238's 8-digit codes for the seed, cut to the 6 digits we use
+const RFC_VECTORS: [seconds: number, code: string][] = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+describe("TOTP codes", () => {
+  it("match the RFC 6238 test vectors", () => {
+    assert.equal(RFC_SECRET, "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    for (const [seconds, code] of RFC_VECTORS) {
+      assert.equal(generateTotp(RFC_SECRET, timeStep(seconds * 1000)), code, `at ${seconds}s`);
+      assert.equal(verifyTotp(RFC_SECRET, code, 1, seconds * 1000), timeStep(seconds * 1000));
+    }
+  });
+
+  it("round-trips secrets through base32", () => {
+    const secret = generateTotpSecret();
+    assert.equal(secret.length, 32);
+    assert.equal(base32Encode(base32Decode(secret)), secret);
+    assert.equal(base32Decode(secret.toLowerCase()).length, 20);
+  });
+
+  it("accepts codes one step either side of now, and no further", () => {
+    const at = 1111111111 * 1000;
+    const step = timeStep(at);
+    for (const offset of [-1, 0, 1]) {
+      assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + offset), 1, at), step + offset);
+    }
+    for (const offset of [-2, 2]) {
+      assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + offset), 1, at), null);
+    }
+  });
+
+  it("accepts codes typed with spaces and rejects anything else", () => {
+    const at = 59 * 1000;
+    assert.equal(verifyTotp(RFC_SECRET, "287 082", 1, at), timeStep(at));
+    assert.equal(verifyTotp(RFC_SECRET, " 287082\n", 1, at), timeStep(at));
+    for (const code of ["28708", "2870820", "287-082", "abcdef", ""]) {
+      assert.equal(verifyTotp(RFC_SECRET, code, 1, at), null, JSON.stringify(code));
+    }
+  });
+});
+
+describe("two-factor routes", { skip: skipWithoutDatabase }, () => {
+  const PASSWORD = "correct horse battery";
+  let close: () => Promise<void>;
+  let endPool: () => Promise<void>;
+  let baseUrl: string;
+  let storage: Awaited<ReturnType<typeof setupTestDatabase>>["storage"];
+
+  before(async () => {
+    const setup = await setupTestDatabase();
+    storage = setup.storage;
+    endPool = () => setup.pool.end();
+
+    const hashed = await bcrypt.hash(PASSWORD, 4);
+    for (const username of ["ada", "bea"]) {
+      const user = await storage.createUser({ username, password: hashed, email: `${username}@example.com`, fullName: username });
+      await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+    }
+
+    ({ baseUrl, close } = await startTestServer());
+  });
+
+  after(async () => {
+    await close?.();
+    await endPool?.();
+  });
+
+  // Signs in with a password, then sends the second factor
+  async function loginWithCode(username: string, code: string) {
+    const agent = new TestAgent(baseUrl);
+    const password = await agent.post("/api/auth/login", { username, password: PASSWORD });
+    assert.deepEqual(password.body, { twoFactorRequired: true });
+    return agent.post("/api/auth/login/2fa", { code });
+  }
+
+  // Turns 2FA on for the user, typing the code the way the app shows it
+  async function enable(username: string) {
+    const agent = new TestAgent(baseUrl);
+    await agent.login(username, PASSWORD);
+    const setup = await agent.post("/api/auth/2fa/setup");
+    const { secret } = setup.body as { secret: string };
+    const code = generateTotp(secret);
+    const enabled = await agent.post("/api/auth/2fa/enable", { code: `${code.slice(0, 3)} ${code.slice(3)}` });
+    assert.equal(enabled.status, 200);
+    return { secret, code, recoveryCodes: (enabled.body as { recoveryCodes: string[] }).recoveryCodes };
+  }
+
+  it("enrols with a spaced code and won't accept the same code again", async () => {
+    const { secret, code: enrolmentCode } = await enable("ada");
+    // The code used to enrol is spent
+    const replayed = await loginWithCode("ada", enrolmentCode);
+    assert.equal(replayed.status, 401);
+
+    // So is one used to log in
+    const user = (await storage.getUserByUsername("ada"))!;
+    await storage.updateUser(user.id, { totpLastUsedStep: timeStep() - 2 });
+    const code = generateTotp(secret);
+    assert.equal((await loginWithCode("ada", code)).status, 200);
+    assert.equal((await loginWithCode("ada", code)).status, 401);
+  });
+
+  it("accepts each recovery code once", async () => {
+    const { recoveryCodes } = await enable("bea");
+    assert.equal(recoveryCodes.length, 10);
+
+    const [code] = recoveryCodes;
+    assert.equal((await loginWithCode("bea", ` ${code.toUpperCase()} `)).status, 200);
+    assert.equal((await loginWithCode("bea", code)).status, 401);
+    assert.equal((await loginWithCode("bea", recoveryCodes[1])).status, 200);
+  });
+});
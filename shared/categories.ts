@@ -0,0 +1,53 @@
+// Icons and colors a category can use. Stored by name so the client can map
+// them to its own icon components and theme classes.
+
+export const CATEGORY_ICONS = [
+  "code",
+  "calculator",
+  "flask-conical",
+  "languages",
+  "music",
+  "palette",
+  "pen-tool",
+  "dumbbell",
+  "book-open",
+  "briefcase",
+  "camera",
+  "chef-hat",
+  "heart-pulse",
+  "globe",
+  "wrench",
+  "gamepad-2",
+  "sparkles",
+] as const;
+export type CategoryIcon = (typeof CATEGORY_ICONS)[number];
+
+export const CATEGORY_COLORS = ["blue", "green", "purple", "pink", "orange", "teal", "amber", "red", "indigo", "slate"] as const;
+export type CategoryColor = (typeof CATEGORY_COLORS)[number];
+
+// Skills whose old free-text category matches nothing are moved here
+export const FALLBACK_CATEGORY_SLUG = "other";
+
+// Seeded into an empty categories table; these were the hardcoded options
+// before categories moved into the database
+export const DEFAULT_CATEGORIES: { slug: string; name: string; icon: CategoryIcon; color: CategoryColor }[] = [
+  { slug: "programming", name: "Programming", icon: "code", color: "blue" },
+  { slug: "mathematics", name: "Mathematics", icon: "calculator", color: "orange" },
+  { slug: "science", name: "Science", icon: "flask-conical", color: "teal" },
+  { slug: "languages", name: "Languages", icon: "languages", color: "amber" },
+  { slug: "music", name: "Music", icon: "music", color: "purple" },
+  { slug: "art-design", name: "Art & Design", icon: "palette", color: "pink" },
+  { slug: "writing", name: "Writing", icon: "pen-tool", color: "indigo" },
+  { slug: "sports-fitness", name: "Sports & Fitness", icon: "dumbbell", color: "red" },
+  { slug: FALLBACK_CATEGORY_SLUG, name: "Other", icon: "sparkles", color: "slate" },
+];
+
+// "Art & Design" -> "art-design"
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // drop accents
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
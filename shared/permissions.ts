@@ -0,0 +1,79 @@
+// Roles and the permissions each one grants. Shared so the client can hide
+// controls the server would refuse anyway; the server remains the authority.
+
+export const ROLES = ["user", "moderator", "admin", "super_admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  user: "User",
+  moderator: "Moderator",
+  admin: "Admin",
+  super_admin: "Super Admin",
+};
+
+export const PERMISSIONS = [
+  "admin.access", // open the admin panel
+  "stats.view",
+  "users.view",
+  "users.delete",
+  "users.role", // change other users' roles
+  "skills.moderate", // remove skills that belong to other users
+  "settings.manage",
+  "categories.manage", // edit the skill category taxonomy
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+const MODERATOR_PERMISSIONS: Permission[] = ["admin.access", "stats.view", "users.view", "skills.moderate"];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  moderator: MODERATOR_PERMISSIONS,
+  admin: [...MODERATOR_PERMISSIONS, "users.delete", "users.role", "settings.manage", "categories.manage"],
+  super_admin: PERMISSIONS,
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+function rank(role: string): number {
+  return ROLES.indexOf(isRole(role) ? role : "user");
+}
+
+// Staff can only act on accounts below their own role, and can only hand out
+// roles below their own. Super admins are the exception and can manage anyone.
+export function canManageUser(actorRole: string, targetRole: string): boolean {
+  return actorRole === "super_admin" || rank(targetRole) < rank(actorRole);
+}
+
+export function assignableRoles(actorRole: string): Role[] {
+  if (actorRole === "super_admin") {
+    return [...ROLES];
+  }
+  return ROLES.filter((role) => rank(role) < rank(actorRole));
+}
+
+// Scopes a personal access token can be granted. Tokens can only reach routes
+// that declare one of these; everything else needs a browser session.
+export const API_TOKEN_SCOPES = [
+  "read:profile",
+  "read:skills",
+  "write:skills",
+  "read:sessions",
+  "write:sessions",
+  "write:reviews",
+] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  "read:profile": "Read your profile",
+  "read:skills": "Read your skills",
+  "write:skills": "Add, edit and archive your skills",
+  "read:sessions": "Read your sessions",
+  "write:sessions": "Request and update sessions",
+  "write:reviews": "Leave reviews",
+};
@@ -0,0 +1,54 @@
+// How well someone knows a skill, from the scale skills are rated on to the
+// evidence and learner endorsements that back the claim up.
+
+export const EXPERIENCE_LEVELS = ["beginner", "intermediate", "advanced", "expert"] as const;
+export type ExperienceLevel = (typeof EXPERIENCE_LEVELS)[number];
+
+export const EXPERIENCE_LEVEL_LABELS: Record<ExperienceLevel, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+  expert: "Expert",
+};
+
+export function isExperienceLevel(value: unknown): value is ExperienceLevel {
+  return typeof value === "string" && (EXPERIENCE_LEVELS as readonly string[]).includes(value);
+}
+
+export const MAX_YEARS_EXPERIENCE = 80;
+
+export const EVIDENCE_KINDS = ["certificate", "portfolio", "course"] as const;
+export type EvidenceKind = (typeof EVIDENCE_KINDS)[number];
+
+export const EVIDENCE_KIND_LABELS: Record<EvidenceKind, string> = {
+  certificate: "Certificate",
+  portfolio: "Portfolio",
+  course: "Course completion",
+};
+
+export const MAX_EVIDENCE_PER_SKILL = 10;
+
+// A skill counts as verified once a moderator says so, or once this many
+// learners who finished a session on it have endorsed it since its
+// experience level or years last changed
+export const ENDORSEMENTS_TO_VERIFY = 3;
+
+// "Advanced · 5 yrs"
+export function describeProficiency(skill: { experienceLevel: string | null; yearsExperience: number | null }): string | null {
+  const parts: string[] = [];
+  if (isExperienceLevel(skill.experienceLevel)) {
+    parts.push(EXPERIENCE_LEVEL_LABELS[skill.experienceLevel]);
+  }
+  if (skill.yearsExperience !== null) {
+    parts.push(`${skill.yearsExperience} ${skill.yearsExperience === 1 ? "yr" : "yrs"}`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+// "Endorsed by 12 learners"
+export function describeEndorsements(count: number): string | null {
+  if (count <= 0) {
+    return null;
+  }
+  return `Endorsed by ${count} ${count === 1 ? "learner" : "learners"}`;
+}
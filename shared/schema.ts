@@ -1,8 +1,14 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, date, json, index, uniqueIndex, primaryKey, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
@@ -11,32 +17,142 @@ export const users = pgTable("users", {
   fullName: text("full_name").notNull(),
   bio: text("bio"),
   avatarUrl: text("avatar_url"),
-  isAdmin: boolean("is_admin").default(false).notNull(),
+  timeZone: text("time_zone"), // preferred IANA zone; times are stored in UTC and shown in this
+  role: text("role").default("user").notNull(), // see ROLES in ./permissions
+  emailVerifiedAt: timestamp("email_verified_at"),
+  totpSecret: text("totp_secret"), // base32, set once 2FA is enabled
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // rejects replay of an accepted code
+  totpRecoveryCodes: text("totp_recovery_codes").array(), // sha256 hashes of unused codes
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const skills = pgTable("skills", {
+export const skills = pgTable(
+  "skills",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    description: text("description"),
+    category: text("category").notNull(), // a categories.slug
+    type: text("type").notNull(), // 'offering' or 'seeking'
+    experienceLevel: text("experience_level"), // see EXPERIENCE_LEVELS in ./proficiency
+    yearsExperience: integer("years_experience"),
+    revision: integer("revision").default(1).notNull(), // bumped on every edit; see skillRevisions
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at"),
+    // Archived skills are hidden from search and profiles but keep their sessions
+    archivedAt: timestamp("archived_at"),
+    archivedBy: varchar("archived_by").references(() => users.id, { onDelete: "set null" }),
+    // Set when a moderator vouches for the skill or enough past learners
+    // endorse it, and cleared if the proficiency they vouched for changes
+    verifiedAt: timestamp("verified_at"),
+    verifiedBy: varchar("verified_by").references(() => users.id, { onDelete: "set null" }), // null when learners verified it
+    endorsementCount: integer("endorsement_count").default(0).notNull(), // kept in step with skillEndorsements
+    // When the experience level or years last changed. Only endorsements made
+    // since then count towards verifying the skill.
+    proficiencyChangedAt: timestamp("proficiency_changed_at"),
+  },
+  // Trigram index for fuzzy name matching in search; needs the pg_trgm extension
+  (table) => [index("skills_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops"))],
+);
+
+// Full-text search documents, one per skill; see server/search.ts. Kept
+// apart from skills so the tsvector never ends up in API responses.
+export const skillSearchDocuments = pgTable(
+  "skill_search_documents",
+  {
+    skillId: varchar("skill_id").primaryKey().references(() => skills.id, { onDelete: "cascade" }),
+    document: tsvector("document").notNull(),
+  },
+  (table) => [index("skill_search_documents_document_idx").using("gin", table.document)],
+);
+
+// Links backing up a skill: certificates, portfolios, finished courses
+export const skillEvidence = pgTable("skill_evidence", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  skillId: varchar("skill_id").notNull().references(() => skills.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // see EVIDENCE_KINDS in ./proficiency
+  title: text("title").notNull(),
+  url: text("url").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A learner endorsing the skill they were taught, after a completed session on it
+export const skillEndorsements = pgTable(
+  "skill_endorsements",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    skillId: varchar("skill_id").notNull().references(() => skills.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("skill_endorsements_skill_user_idx").on(table.skillId, table.userId)],
+);
+
+// The skill category taxonomy, managed from the admin panel. Subcategories
+// are one level deep. Slugs never change once created, since skills refer to them.
+export const categories = pgTable("categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  slug: text("slug").notNull().unique(),
   name: text("name").notNull(),
-  description: text("description"),
-  category: text("category").notNull(),
-  type: text("type").notNull(), // 'offering' or 'seeking'
-  experienceLevel: text("experience_level"), // 'beginner', 'intermediate', 'advanced'
+  icon: text("icon").notNull(), // see CATEGORY_ICONS in ./categories
+  color: text("color").notNull(), // see CATEGORY_COLORS in ./categories
+  parentId: varchar("parent_id").references((): AnyPgColumn => categories.id, { onDelete: "restrict" }),
+  sortOrder: integer("sort_order").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Free-form skill tags. Typed text is canonicalized before it gets here (see
+// ./tags), so each slug has one tag whatever case or synonym was used.
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(), // as first written, or its well-known spelling
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const skillTags = pgTable(
+  "skill_tags",
+  {
+    skillId: varchar("skill_id").notNull().references(() => skills.id, { onDelete: "cascade" }),
+    tagId: varchar("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => [primaryKey({ columns: [table.skillId, table.tagId] }), index("skill_tags_tag_idx").on(table.tagId)],
+);
+
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   requesterId: varchar("requester_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   providerId: varchar("provider_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   skillId: varchar("skill_id").notNull().references(() => skills.id, { onDelete: "cascade" }),
+  skillRevision: integer("skill_revision"), // skills.revision when requested; null for older sessions
   status: text("status").notNull().default("pending"), // 'pending', 'accepted', 'completed', 'cancelled'
   scheduledAt: timestamp("scheduled_at"),
   message: text("message"),
+  reminderSentAt: timestamp("reminder_sent_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Earlier versions of a skill, saved each time it is edited so sessions keep
+// showing what was offered when they were booked
+export const skillRevisions = pgTable(
+  "skill_revisions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    skillId: varchar("skill_id").notNull().references(() => skills.id, { onDelete: "cascade" }),
+    revision: integer("revision").notNull(),
+    name: text("name").notNull(),
+    description: text("description"),
+    category: text("category").notNull(),
+    type: text("type").notNull(),
+    experienceLevel: text("experience_level"),
+    yearsExperience: integer("years_experience"),
+    replacedAt: timestamp("replaced_at").defaultNow().notNull(), // when the next revision was saved
+  },
+  (table) => [uniqueIndex("skill_revisions_skill_revision_idx").on(table.skillId, table.revision)],
+);
+
 export const reviews = pgTable("reviews", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
@@ -47,6 +163,116 @@ export const reviews = pgTable("reviews", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the emailed token
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  email: text("email").notNull(), // the address this token proves ownership of
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Site-wide settings editable by admins, e.g. "require_admin_2fa"
+export const siteSettings = pgTable("site_settings", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Login sessions, managed by connect-pg-simple. Named user_sessions so it
+// isn't confused with the tutoring sessions table.
+export const userSessions = pgTable(
+  "user_sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: json("sess").notNull(),
+    expire: timestamp("expire", { precision: 6 }).notNull(),
+  },
+  (table) => [index("IDX_user_sessions_expire").on(table.expire)],
+);
+
+// Personal data exports that were too large to build during the request
+export const dataExports = pgTable("data_exports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("pending"), // 'pending', 'ready', 'failed'
+  filePath: text("file_path"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Accounts at an external OpenID Connect provider that can sign in as a user
+export const userIdentities = pgTable(
+  "user_identities",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    issuer: text("issuer").notNull(),
+    subject: text("subject").notNull(), // the provider's stable `sub` claim
+    email: text("email"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    lastLoginAt: timestamp("last_login_at"),
+  },
+  (table) => [uniqueIndex("user_identities_issuer_subject_idx").on(table.issuer, table.subject)],
+);
+
+// Personal access tokens for scripts, sent as `Authorization: Bearer <token>`
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token
+  prefix: text("prefix").notNull(), // first characters, to tell tokens apart in the list
+  scopes: text("scopes").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"),
+});
+
+// A tutor's recurring weekly availability. Minutes count from local midnight
+// in `timeZone`, so a window keeps its wall-clock hours across DST changes.
+export const availabilityWindows = pgTable("availability_windows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  weekday: integer("weekday").notNull(), // 0 = Sunday, as in Date#getDay
+  startMinute: integer("start_minute").notNull(),
+  endMinute: integer("end_minute").notNull(),
+  timeZone: text("time_zone").notNull(), // IANA name, e.g. "America/Chicago"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Days a tutor is away (holidays, exams) even though a weekly window covers them
+export const availabilityExceptions = pgTable(
+  "availability_exceptions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    date: date("date", { mode: "string" }).notNull(), // local date in the tutor's time zone
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("availability_exceptions_user_date_idx").on(table.userId, table.date)],
+);
+
+// Fixed-window counters for the Postgres rate limit store
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").primaryKey(),
+  count: integer("count").notNull(),
+  resetAt: timestamp("reset_at").notNull(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   skills: many(skills),
@@ -59,6 +285,32 @@ export const usersRelations = relations(users, ({ many }) => ({
 export const skillsRelations = relations(skills, ({ one, many }) => ({
   user: one(users, { fields: [skills.userId], references: [users.id] }),
   sessions: many(sessions),
+  revisions: many(skillRevisions),
+  tags: many(skillTags),
+  evidence: many(skillEvidence),
+  endorsements: many(skillEndorsements),
+}));
+
+export const skillEvidenceRelations = relations(skillEvidence, ({ one }) => ({
+  skill: one(skills, { fields: [skillEvidence.skillId], references: [skills.id] }),
+}));
+
+export const skillEndorsementsRelations = relations(skillEndorsements, ({ one }) => ({
+  skill: one(skills, { fields: [skillEndorsements.skillId], references: [skills.id] }),
+  user: one(users, { fields: [skillEndorsements.userId], references: [users.id] }),
+}));
+
+export const tagsRelations = relations(tags, ({ many }) => ({
+  skills: many(skillTags),
+}));
+
+export const skillTagsRelations = relations(skillTags, ({ one }) => ({
+  skill: one(skills, { fields: [skillTags.skillId], references: [skills.id] }),
+  tag: one(tags, { fields: [skillTags.tagId], references: [tags.id] }),
+}));
+
+export const skillRevisionsRelations = relations(skillRevisions, ({ one }) => ({
+  skill: one(skills, { fields: [skillRevisions.skillId], references: [skills.id] }),
 }));
 
 export const sessionsRelations = relations(sessions, ({ one, many }) => ({
@@ -82,6 +334,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
   fullName: true,
   bio: true,
   avatarUrl: true,
+  timeZone: true,
 });
 
 export const insertSkillSchema = createInsertSchema(skills).pick({
@@ -91,12 +344,14 @@ export const insertSkillSchema = createInsertSchema(skills).pick({
   category: true,
   type: true,
   experienceLevel: true,
+  yearsExperience: true,
 });
 
 export const insertSessionSchema = createInsertSchema(sessions).pick({
   requesterId: true,
   providerId: true,
   skillId: true,
+  skillRevision: true,
   scheduledAt: true,
   message: true,
 });
@@ -114,16 +369,160 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Skill = typeof skills.$inferSelect;
 export type InsertSkill = z.infer<typeof insertSkillSchema>;
+export type SkillRevision = typeof skillRevisions.$inferSelect;
+export type Category = typeof categories.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+// The fields an edit can change, which are also what a revision records
+export type SkillDetails = Pick<Skill, "name" | "description" | "category" | "type" | "experienceLevel" | "yearsExperience">;
+export type SkillEvidence = typeof skillEvidence.$inferSelect;
+export type SkillEndorsement = typeof skillEndorsements.$inferSelect;
 export type Session = typeof sessions.$inferSelect;
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type UserSession = typeof userSessions.$inferSelect;
+export type DataExport = typeof dataExports.$inferSelect;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type AvailabilityWindow = typeof availabilityWindows.$inferSelect;
+export type AvailabilityException = typeof availabilityExceptions.$inferSelect;
+
+// Safe user projections. SafeUser is what a user (or an admin) may see about
+// an account; PublicUser is what anyone else may see.
+export type SafeUser = Omit<User, "password" | "totpSecret" | "totpLastUsedStep" | "totpRecoveryCodes">;
+export type PublicUser = Pick<User, "id" | "username" | "fullName" | "bio" | "avatarUrl" | "timeZone" | "createdAt">;
+
+export function toSafeUser(user: User): SafeUser {
+  const {
+    password: _password,
+    totpSecret: _totpSecret,
+    totpLastUsedStep: _totpLastUsedStep,
+    totpRecoveryCodes: _totpRecoveryCodes,
+    ...safe
+  } = user;
+  return safe;
+}
+
+// Uploaded avatars are stored at each of these sizes (square, in px). avatarUrl
+// points at the largest; smaller ones share its name with a different suffix.
+export const AVATAR_SIZES = [64, 256] as const;
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
+
+export function avatarVariantUrl(avatarUrl: string, size: AvatarSize): string {
+  return avatarUrl.replace(/-\d+\.webp$/, `-${size}.webp`);
+}
+
+export function toPublicUser(user: User | SafeUser | PublicUser): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    fullName: user.fullName,
+    bio: user.bio,
+    avatarUrl: user.avatarUrl,
+    timeZone: user.timeZone,
+    createdAt: user.createdAt,
+  };
+}
+
+// A signed-in device as shown on the settings page. `id` is a hash of the
+// session id so the real cookie value never leaves the server.
+export type ActiveSession = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  current: boolean;
+};
+
+// A personal access token as listed on the settings page; never includes the hash
+export type ApiTokenInfo = Omit<ApiToken, "userId" | "tokenHash">;
+
+// Sessions are booked in fixed-length slots cut from a tutor's weekly windows
+export const SESSION_SLOT_MINUTES = 60;
+
+export interface AvailabilitySlot {
+  start: string; // ISO timestamp, UTC
+  end: string;
+}
+
+// A tutor's schedule as edited on the settings page
+export interface AvailabilitySchedule {
+  timeZone: string | null;
+  windows: Pick<AvailabilityWindow, "id" | "weekday" | "startMinute" | "endMinute">[];
+  exceptions: Pick<AvailabilityException, "id" | "date" | "reason">[];
+}
+
+// What learners see when booking: concrete slots that are still free
+export interface UserAvailability {
+  timeZone: string | null;
+  slots: AvailabilitySlot[];
+}
+
+// downloadUrl is set once the export is ready
+export type DataExportInfo = Pick<DataExport, "id" | "status" | "createdAt" | "completedAt" | "expiresAt"> & {
+  downloadUrl: string | null;
+};
+
+// A tag as shown on a skill; link to it by slug
+export type TagInfo = Pick<Tag, "slug" | "name">;
+// Tag autocomplete and listings, with how many active skills use the tag
+export type TagSummary = TagInfo & { skillCount: number };
 
 // Extended types for frontend
-export type UserWithSkills = User & { skills: Skill[] };
-export type SkillWithUser = Skill & { user: User };
+export type SkillWithTags = Skill & { tags: TagInfo[] };
+export type SkillWithEvidence = SkillWithTags & { evidence: SkillEvidence[] };
+export type UserWithSkills = PublicUser & { skills: Skill[] };
+export type SkillWithUser = SkillWithTags & { user: PublicUser };
+// Search result orderings: best match to the search text (newest first when
+// there is none), newest first, best-rated tutors first, or most booked first
+export const SKILL_SORTS = ["relevance", "newest", "rating", "popularity"] as const;
+export type SkillSort = (typeof SKILL_SORTS)[number];
+// Text split into runs, with the runs that matched a search marked
+export type HighlightedText = { text: string; match: boolean }[];
+// A search result; highlights are included when there was search text
+export type SkillSearchHit = SkillWithUser & {
+  highlight?: { name: HighlightedText; description: HighlightedText | null };
+};
+// One page of search results; send nextCursor back for the page after it
+export type SkillSearchPage = { skills: SkillSearchHit[]; total: number; nextCursor: string | null };
+export type TagListing = { tag: TagSummary } & SkillSearchPage;
+// One skill from a bulk import file, as previewed on a dry run and as saved
+export type SkillImportRow = {
+  row: number; // 1-based, not counting a CSV header
+  status: "ready" | "created" | "invalid" | "duplicate";
+  skill: (SkillDetails & { tags: string[] }) | null; // null when invalid
+  name: string | null; // as given, for rows that didn't validate
+  errors: string[];
+};
+export type SkillImportReport = { dryRun: boolean; created: number; rows: SkillImportRow[] };
 export type SessionWithDetails = Session & { 
-  requester: User; 
-  provider: User; 
+  requester: PublicUser; 
+  provider: PublicUser; 
+  // As it was when the session was requested, if it has been edited since
   skill: Skill;
+  skillEndorsed: boolean; // whether the learner has endorsed the skill
+};
+export type ReviewWithReviewer = Review & { reviewer: PublicUser };
+
+// Badge ids are mapped to labels and icons on the client
+export type UserBadge = "top_tutor" | "skill_master" | "getting_started" | "highly_rated";
+
+export interface UserStats {
+  completedSessions: number;
+  offeringSkills: number;
+  seekingSkills: number;
+  averageRating: number;
+  reviewCount: number;
+  badges: UserBadge[];
+}
+
+// Everything shown on a public profile page
+export type PublicProfile = PublicUser & {
+  offeredSkills: SkillWithEvidence[];
+  soughtSkills: SkillWithTags[];
+  stats: UserStats;
+  recentReviews: ReviewWithReviewer[];
 };
@@ -0,0 +1,88 @@
+import { slugify } from "./categories";
+
+export const MAX_TAGS_PER_SKILL = 10;
+export const MAX_TAG_LENGTH = 30;
+
+// Alternate spellings, by slug, and the slug of the tag they mean. Anything
+// typed that slugifies to a key here is filed under the value instead.
+export const TAG_SYNONYMS: Record<string, string> = {
+  js: "javascript",
+  ecmascript: "javascript",
+  "vanilla-js": "javascript",
+  ts: "typescript",
+  py: "python",
+  python3: "python",
+  "python-3": "python",
+  cpp: "c-plus-plus",
+  csharp: "c-sharp",
+  golang: "go",
+  node: "node-js",
+  nodejs: "node-js",
+  reactjs: "react",
+  "react-js": "react",
+  vuejs: "vue",
+  "vue-js": "vue",
+  postgres: "postgresql",
+  k8s: "kubernetes",
+  ml: "machine-learning",
+  ai: "artificial-intelligence",
+  ui: "ui-design",
+  ux: "ux-design",
+  calc: "calculus",
+  stats: "statistics",
+  espanol: "spanish",
+  francais: "french",
+};
+
+// How well-known tags are written, when that isn't just the text typed
+export const TAG_NAMES: Record<string, string> = {
+  javascript: "JavaScript",
+  typescript: "TypeScript",
+  python: "Python",
+  "c-plus-plus": "C++",
+  "c-sharp": "C#",
+  go: "Go",
+  "node-js": "Node.js",
+  react: "React",
+  vue: "Vue",
+  postgresql: "PostgreSQL",
+  kubernetes: "Kubernetes",
+  "machine-learning": "Machine Learning",
+  "artificial-intelligence": "Artificial Intelligence",
+  "ui-design": "UI Design",
+  "ux-design": "UX Design",
+  calculus: "Calculus",
+  statistics: "Statistics",
+  spanish: "Spanish",
+  french: "French",
+};
+
+// "C++" and "C#" would both slugify to "c", so spell the symbols out first
+function tagSlug(text: string): string {
+  return slugify(text.replace(/\+/g, " plus ").replace(/#/g, " sharp "));
+}
+
+// The tag a piece of typed text files under: "JS", "js" and "JavaScript" all
+// become { slug: "javascript", name: "JavaScript" }. Null when nothing usable
+// is left, e.g. for "!!!".
+export function canonicalTag(text: string): { slug: string; name: string } | null {
+  const typed = text.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+  const raw = tagSlug(typed);
+  if (!raw) {
+    return null;
+  }
+  const slug = TAG_SYNONYMS[raw] ?? raw;
+  return { slug, name: TAG_NAMES[slug] ?? (slug === raw ? typed : slug) };
+}
+
+// Canonical tags for a list of typed text, without duplicates
+export function canonicalTags(texts: string[]): { slug: string; name: string }[] {
+  const tags = new Map<string, { slug: string; name: string }>();
+  for (const text of texts) {
+    const tag = canonicalTag(text);
+    if (tag && !tags.has(tag.slug)) {
+      tags.set(tag.slug, tag);
+    }
+  }
+  return Array.from(tags.values());
+}
@@ -0,0 +1,50 @@
+// Times are stored in UTC and only turned into wall-clock time for display,
+// through Intl so each zone's own DST rules apply on the date in question.
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// An unset or unknown zone falls back to the runtime's own
+function zoneOption(timeZone?: string | null) {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+}
+
+// e.g. "Tue, Mar 10, 4:00 PM CDT"
+export function formatDateTime(date: Date | string, timeZone?: string | null, locale?: string): string {
+  return new Date(date).toLocaleString(locale, {
+    timeZone: zoneOption(timeZone),
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+// e.g. "4:00 PM CDT"
+export function formatTime(date: Date | string, timeZone?: string | null, locale?: string): string {
+  return new Date(date).toLocaleTimeString(locale, {
+    timeZone: zoneOption(timeZone),
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+// YYYY-MM-DD of the day an instant falls on in `timeZone`
+export function dateKeyInTimeZone(date: Date | string, timeZone?: string | null): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Date(date).toLocaleDateString("en-CA", {
+    timeZone: zoneOption(timeZone),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+}